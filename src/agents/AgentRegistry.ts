@@ -0,0 +1,38 @@
+import { ChatAgent } from './ChatAgent';
+
+/**
+ * Holds the chat agents the application exposes, keyed by their ID.
+ *
+ * Agents are listed in registration order, which is also the order the UI shows them in.
+ */
+export class AgentRegistry {
+    private agents: Map<string, ChatAgent> = new Map();
+
+    register(agent: ChatAgent): this {
+        if (this.agents.has(agent.id)) {
+            throw new Error(`An agent with ID "${agent.id}" is already registered`);
+        }
+        this.agents.set(agent.id, agent);
+        return this;
+    }
+
+    get(id: string): ChatAgent | undefined {
+        return this.agents.get(id);
+    }
+
+    list(): ChatAgent[] {
+        return Array.from(this.agents.values());
+    }
+
+    /**
+     * Cleans up every registered agent. A failing agent does not stop the others.
+     */
+    async cleanup(): Promise<void> {
+        const results = await Promise.allSettled(this.list().map((agent) => agent.cleanup()));
+        results.forEach((result, index) => {
+            if (result.status === 'rejected') {
+                console.error(`Error cleaning up agent ${this.list()[index].id}:`, result.reason);
+            }
+        });
+    }
+}
@@ -0,0 +1,93 @@
+import { toProblemDetails } from '../errors';
+import { AgentInfo, AgentStatus, ChatMessage, ChatSession, ChatStreamEvent } from '../types';
+
+/**
+ * Result of an agent health check.
+ */
+export interface AgentHealth {
+    status: AgentStatus;
+    /** Human-readable explanation, e.g. which settings are missing. */
+    detail?: string;
+}
+
+/**
+ * Common contract for every chat agent exposed under `/api/chat/:agentId`.
+ *
+ * Agents that persist conversations also implement the optional session methods, which back
+ * the `/api/chat/:agentId/sessions` routes. Agents that can pause for confirmation before running
+ * tools implement `resolvePendingAction`.
+ *
+ * Messages are sent on behalf of a user, identified by `userId`. Agents with task tools pass it
+ * to them as `configurable.user_id`, and the tools only see and change that user's tasks. Which
+ * sessions belong to which user is checked by the routes before an agent is called.
+ */
+export interface ChatAgent {
+    /** URL-safe identifier used in routes, e.g. `langgraph`. */
+    readonly id: string;
+    readonly name: string;
+    readonly description: string;
+
+    /**
+     * Processes a user message and resolves with the complete assistant reply.
+     * Rejects with an `AppError` such as `AgentNotConfiguredError` or `UpstreamError` when no
+     * reply could be produced.
+     */
+    processMessage(message: string, sessionId: string | undefined, userId: string): Promise<ChatMessage>;
+
+    /**
+     * Streams the assistant reply; the last event is either `message` or `error`.
+     * Failures are reported as an `error` event, built with `chatErrorEvent`, rather than thrown.
+     */
+    streamMessage(message: string, sessionId: string | undefined, userId: string): AsyncGenerator<ChatStreamEvent>;
+
+    /**
+     * Reports whether the agent is configured and able to take messages.
+     */
+    health(): Promise<AgentHealth>;
+
+    /**
+     * Releases remote and local resources on shutdown.
+     */
+    cleanup(): Promise<void>;
+
+    listSessions?(): Promise<ChatSession[]>;
+    /**
+     * @param userId - The user the session belongs to, whose tasks a pending action is described
+     * with.
+     */
+    getSessionHistory?(sessionId: string, userId: string): Promise<ChatMessage[] | null>;
+    deleteSession?(sessionId: string): Promise<boolean>;
+
+    /**
+     * Approves or rejects the pending action of a session and resolves with the reply that follows,
+     * which may itself carry a new pending action. Resolves with null when the session has no
+     * pending action with that ID, e.g. because it was already resolved. Rejects like `processMessage`.
+     */
+    resolvePendingAction?(sessionId: string, actionId: string, approved: boolean, userId: string): Promise<ChatMessage | null>;
+}
+
+/**
+ * Describes an agent for the `GET /api/agents` discovery endpoint.
+ */
+export async function describeAgent(agent: ChatAgent): Promise<AgentInfo> {
+    const health = await agent.health();
+    return {
+        id: agent.id,
+        name: agent.name,
+        description: agent.description,
+        status: health.status,
+        detail: health.detail,
+        supportsHistory: typeof agent.getSessionHistory === 'function',
+        supportsApproval: typeof agent.resolvePendingAction === 'function'
+    };
+}
+
+/**
+ * Builds the `error` event that ends a failed chat stream, carrying the problem details of `error`.
+ *
+ * @param fallbackDetail - Shown to the client for errors that are not `AppError`s.
+ */
+export function chatErrorEvent(error: unknown, fallbackDetail: string): ChatStreamEvent {
+    const problem = toProblemDetails(error, fallbackDetail);
+    return { type: 'error', error: problem.detail, problem };
+}
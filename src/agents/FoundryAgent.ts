@@ -0,0 +1,286 @@
+import {
+    AgentsClient,
+    ToolDefinitionUnion
+} from '@azure/ai-agents';
+import { DefaultAzureCredential } from '@azure/identity';
+import { StructuredToolInterface } from '@langchain/core/tools';
+import { AgentHealth, ChatAgent, chatErrorEvent } from './ChatAgent';
+import { SessionThreadManager } from './SessionThreadManager';
+import {
+    NO_REPLY_DETAIL,
+    ToolCallContext,
+    getLatestAssistantMessage,
+    pollFoundryRun,
+    streamFoundryRun,
+    toFunctionToolDefinitions
+} from './foundryRuns';
+import { AgentNotConfiguredError, AgentRunFailedError, AppError, UpstreamError, asUpstreamError } from '../errors';
+import { ChatTraceRecorder } from '../telemetry/ChatTraceRecorder';
+import { ChatMessage, ChatStreamEvent } from '../types';
+
+const FAILURE_DETAIL = 'Azure AI Foundry could not process the message.';
+
+/**
+ * Base class for chat agents hosted in Azure AI Foundry Agent Service.
+ *
+ * The `FoundryAgent` class is responsible for:
+ * - Initializing a connection to Azure AI Foundry using environment variables for configuration.
+ * - Managing a conversation thread per chat session, deleted after an idle timeout.
+ * - Sending user messages to the agent and retrieving assistant responses, whole or streamed.
+ * - Running the agent's function tool calls in-process when a run requires action.
+ * - Reporting missing configuration, failed runs and service errors as typed errors.
+ * - Providing a cleanup method that deletes the session threads on the Foundry side.
+ *
+ * Subclasses name the environment variable that holds their Foundry agent ID, and pass the
+ * local tools the agent may call.
+ *
+ * @remarks
+ * `AZURE_AI_FOUNDRY_PROJECT_ENDPOINT` must be set to the endpoint URL of the Azure AI Foundry project.
+ * When `AZURE_AI_FOUNDRY_PUBLISH_TOOLS` is `true`, the local tools are added to the Foundry agent's
+ * definition as function tools on startup.
+ */
+export abstract class FoundryAgent implements ChatAgent {
+    abstract readonly id: string;
+    abstract readonly name: string;
+    abstract readonly description: string;
+
+    protected client: AgentsClient | null = null;
+    protected agentId: string | null = null;
+    protected threads: SessionThreadManager | null = null;
+    private initialization: Promise<void> = Promise.resolve();
+    private unavailableReason: string | null = null;
+    private agentIdVariable: string;
+    private tools: StructuredToolInterface[];
+
+    /**
+     * This constructor sets up the agent by:
+     * - Creating an AgentsClient using Azure credentials.
+     * - Fetching the agent from Azure AI Foundry. Conversation threads are created per session on first use.
+     *
+     * @param agentIdVariable - Name of the environment variable holding the Foundry agent ID.
+     * @param client - Optional pre-built client, e.g. a stub in tests. Defaults to a client for
+     * `AZURE_AI_FOUNDRY_PROJECT_ENDPOINT` using `DefaultAzureCredential`.
+     * @param tools - Tools run in-process when the agent calls a function tool of the same name.
+     */
+    constructor(agentIdVariable: string, client?: AgentsClient, tools: StructuredToolInterface[] = []) {
+        this.agentIdVariable = agentIdVariable;
+        this.tools = tools;
+
+        // Initialize the agent directly in constructor
+        const endpoint = process.env.AZURE_AI_FOUNDRY_PROJECT_ENDPOINT;
+        const agentId = process.env[agentIdVariable];
+
+        if (!agentId || (!endpoint && !client)) {
+            console.warn(`Azure AI Foundry configuration missing. Set AZURE_AI_FOUNDRY_PROJECT_ENDPOINT and ${agentIdVariable}`);
+            return;
+        }
+
+        try {
+            // Create the client using Azure credentials
+            this.client = client ?? new AgentsClient(endpoint, new DefaultAzureCredential());
+            this.threads = new SessionThreadManager(this.client);
+
+            // Get the agent from Azure AI Foundry
+            this.initialization = this.client.getAgent(agentId).then(async (agent) => {
+                if (process.env.AZURE_AI_FOUNDRY_PUBLISH_TOOLS === 'true' && this.tools.length > 0) {
+                    await this.publishTools(agent.id, agent.tools);
+                }
+                this.agentId = agent.id;
+                console.log(`Foundry agent initialized with ID: ${this.agentId}`);
+            }).catch((error) => {
+                console.error('Error initializing Foundry agent:', error);
+                this.unavailableReason = `Could not load Foundry agent ${agentId}: ${error.message ?? error}`;
+            });
+
+        } catch (error) {
+            console.error('Error initializing Foundry agent:', error);
+            this.unavailableReason = `Could not create the Azure AI Foundry client: ${error.message ?? error}`;
+        }
+    }
+
+    async health(): Promise<AgentHealth> {
+        await this.initialization;
+        if (this.client && this.threads && this.agentId) {
+            return { status: 'ready' };
+        }
+        if (this.unavailableReason) {
+            return { status: 'unavailable', detail: this.unavailableReason };
+        }
+        return {
+            status: 'not_configured',
+            detail: `Set AZURE_AI_FOUNDRY_PROJECT_ENDPOINT and ${this.agentIdVariable}`
+        };
+    }
+
+    /**
+     * Processes a user message by sending it to the Azure AI Foundry agent and returns the assistant's response.
+     *
+     * This method performs the following steps:
+     * 1. Adds the user's message to the session's conversation thread, creating the thread if needed.
+     * 2. Initiates and polls a run with the agent to process the message.
+     * 3. Retrieves and returns the latest assistant response from the thread.
+     *
+     * @param message - The user's message to be processed by the agent.
+     * @param sessionId - (Optional) The session identifier selecting the conversation thread.
+     * @param userId - The user the message comes from, whom function tool calls run for.
+     * @returns A promise that resolves to a `ChatMessage` object containing the assistant's response
+     * and the trace of the turn.
+     * @throws AgentNotConfiguredError when the Foundry settings are missing.
+     * @throws AgentRunFailedError when the run ends with a status other than `completed`.
+     * @throws UpstreamError when the agent could not be loaded, Foundry fails, or the run ends without a reply.
+     */
+    async processMessage(message: string, sessionId: string | undefined, userId: string): Promise<ChatMessage> {
+        await this.initialization;
+        if (!this.client || !this.threads || !this.agentId) {
+            throw this.notConfiguredError();
+        }
+
+        const recorder = new ChatTraceRecorder(this.id, 'message', sessionId);
+        let response: ChatMessage | null;
+        try {
+            response = await this.threads.withThread(sessionId, (threadId) => this.runOnThread(threadId, message, { sessionId, userId }, recorder));
+            if (!response) {
+                throw new UpstreamError(NO_REPLY_DETAIL);
+            }
+        } catch (error) {
+            recorder.finish('error', error);
+            throw asUpstreamError(error, FAILURE_DETAIL);
+        }
+        return { ...response, trace: recorder.finish() };
+    }
+
+    /**
+     * Streams the agent's reply to a user message as it is generated.
+     *
+     * @param message - The user's message to be processed by the agent.
+     * @param sessionId - (Optional) The session identifier selecting the conversation thread.
+     * @param userId - The user the message comes from, whom function tool calls run for.
+     * @returns An async iterable of stream events ending with a `message` or `error` event.
+     */
+    async *streamMessage(message: string, sessionId: string | undefined, userId: string): AsyncGenerator<ChatStreamEvent> {
+        await this.initialization;
+        if (!this.client || !this.threads || !this.agentId) {
+            yield chatErrorEvent(this.notConfiguredError(), FAILURE_DETAIL);
+            return;
+        }
+
+        const recorder = new ChatTraceRecorder(this.id, 'stream', sessionId);
+        let lease;
+        try {
+            lease = await this.threads.acquire(sessionId);
+            await this.client.messages.create(lease.threadId, "user", message);
+            for await (const event of streamFoundryRun(this.client, lease.threadId, this.agentId, this.tools, { sessionId, userId }, recorder)) {
+                if (event.type === 'message') {
+                    yield { type: 'message', message: { ...event.message, trace: recorder.finish() } };
+                } else {
+                    if (event.type === 'error') {
+                        recorder.finish('error', event.error);
+                    }
+                    yield event;
+                }
+            }
+        } catch (error) {
+            console.error('Error streaming message with Foundry agent:', error);
+            recorder.finish('error', error);
+            yield chatErrorEvent(asUpstreamError(error, FAILURE_DETAIL), FAILURE_DETAIL);
+        } finally {
+            // Only records anything when the client disconnected mid-reply
+            recorder.finish('cancelled');
+            lease?.release();
+        }
+    }
+
+    /**
+     * Sends one message to the agent on a thread of its own, outside any chat session, and
+     * returns the text of the reply. The thread is deleted afterwards. Function tool calls run for
+     * no user, so the task tools refuse them.
+     *
+     * @throws Like `processMessage`.
+     */
+    protected async runOnce(message: string, recorder: ChatTraceRecorder): Promise<string> {
+        await this.initialization;
+        if (!this.client || !this.agentId) {
+            throw this.notConfiguredError();
+        }
+
+        let threadId: string | null = null;
+        try {
+            threadId = (await this.client.threads.create()).id;
+            const reply = await this.runOnThread(threadId, message, {}, recorder);
+            if (!reply) {
+                throw new UpstreamError(NO_REPLY_DETAIL);
+            }
+            return reply.content;
+        } catch (error) {
+            throw asUpstreamError(error, FAILURE_DETAIL);
+        } finally {
+            if (threadId) {
+                await this.client.threads.delete(threadId).catch((error) => {
+                    console.error(`Error deleting Foundry thread ${threadId}:`, error);
+                });
+            }
+        }
+    }
+
+    /**
+     * Returns the error reported while the agent cannot take messages: the agent failed to load,
+     * or its settings are missing.
+     */
+    private notConfiguredError(): AppError {
+        if (this.unavailableReason) {
+            return new UpstreamError(this.unavailableReason);
+        }
+        return new AgentNotConfiguredError(
+            `Azure AI Foundry agent is not configured. Set AZURE_AI_FOUNDRY_PROJECT_ENDPOINT and ${this.agentIdVariable}`
+        );
+    }
+
+    /**
+     * Deletes the conversation threads created for chat sessions.
+     * The agent itself is managed in the portal and is left untouched.
+     */
+    async cleanup(): Promise<void> {
+        if (this.threads) {
+            await this.threads.cleanup();
+        }
+        console.log(`${this.name} cleanup completed`);
+    }
+
+    /**
+     * Adds the message to the thread, runs the agent and returns the latest assistant reply,
+     * or null when the run completed without one. Function tool calls run for `context`.
+     *
+     * @throws AgentRunFailedError when the run does not complete.
+     */
+    protected async runOnThread(
+        threadId: string,
+        message: string,
+        context: ToolCallContext = {},
+        recorder?: ChatTraceRecorder
+    ): Promise<ChatMessage | null> {
+        // Add the user message to the thread
+        await this.client!.messages.create(threadId, "user", message);
+
+        // Create and poll a run, running any function calls locally
+        const run = await pollFoundryRun(this.client!, threadId, this.agentId!, this.tools, 2000, context, recorder);
+
+        if (run.status !== 'completed') {
+            console.log(`Run completed with status: ${run.status}`);
+            throw new AgentRunFailedError(run.status, run.lastError ?? undefined);
+        }
+
+        return getLatestAssistantMessage(this.client!, threadId);
+    }
+
+    /**
+     * Adds the local tools to the Foundry agent as function tools, replacing earlier versions of
+     * them and keeping every other tool configured on the agent.
+     */
+    private async publishTools(agentId: string, existingTools: ToolDefinitionUnion[]): Promise<void> {
+        const definitions = toFunctionToolDefinitions(this.tools);
+        const names = new Set(definitions.map((definition) => definition.function.name));
+        const kept = existingTools.filter((tool: any) => tool.type !== 'function' || !names.has(tool.function?.name));
+        await this.client!.updateAgent(agentId, { tools: [...kept, ...definitions] });
+        console.log(`Published ${definitions.length} function tools to Foundry agent ${agentId}`);
+    }
+}
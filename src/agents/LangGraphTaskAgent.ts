@@ -1,127 +1,106 @@
-import { AzureChatOpenAI } from '@langchain/openai';
-import { DefaultAzureCredential, getBearerTokenProvider } from '@azure/identity';
 import { createReactAgent } from '@langchain/langgraph/prebuilt';
-import { MemorySaver } from '@langchain/langgraph';
-import { tool } from '@langchain/core/tools';
-import { z } from 'zod';
+import { MessagesAnnotation } from '@langchain/langgraph';
+import { AIMessage, BaseMessage, SystemMessage, ToolMessage } from '@langchain/core/messages';
+import type { RunnableConfig } from '@langchain/core/runnables';
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
 import { TaskService } from '../services/TaskService';
-import { ChatMessage } from '../types';
+import { SqliteCheckpointSaver } from '../database/SqliteCheckpointSaver';
+import { createChatModel } from '../llm/createChatModel';
+import { TraceCallbackHandler } from '../llm/TraceCallbackHandler';
+import { ChatTraceRecorder } from '../telemetry/ChatTraceRecorder';
+import { AgentHealth, ChatAgent, chatErrorEvent } from './ChatAgent';
+import { AgentNotConfiguredError, AppError, asUpstreamError } from '../errors';
+import { createExtractTasksTool, createTaskTools, describeList, isMissingCriteria, watchTaskChanges } from './taskTools';
+import { ActionItemExtractor } from '../services/ActionItemExtractor';
+import { ChatMessage, ChatSession, ChatStreamEvent, PendingAction, TaskList } from '../types';
+
+/**
+ * Tools that wait for user approval unless `LANGGRAPH_APPROVAL_TOOLS` says otherwise. Undoing
+ * deletes or overwrites tasks too, and can be repeated to roll back a conversation's changes.
+ */
+const DEFAULT_APPROVAL_TOOLS = ['deleteTask', 'updateTask', 'deleteTasks', 'updateTasks', 'undoLastAction', 'moveTasks'];
+
+const CONFIRMATION_PROMPT = 'Please confirm before I go ahead.';
+const REJECTED_RESULT = 'The user rejected this action, so it was not carried out.';
+const ABANDONED_RESULT = 'The user sent a new message instead of confirming this action, so it was not carried out.';
+const FAILURE_DETAIL = 'The LangGraph agent could not get a reply from the language model.';
+
+export interface LangGraphTaskAgentOptions {
+    /** Chat model to use instead of the one selected by `LLM_PROVIDER`, e.g. a `ScriptedChatModel` in tests. */
+    llm?: BaseChatModel;
+    /**
+     * Names of the tools that need user approval before they run. Defaults to the comma-separated
+     * `LANGGRAPH_APPROVAL_TOOLS`, or the tools that update and delete tasks when that is not set.
+     * An empty list lets every tool run immediately.
+     */
+    approvalTools?: string[];
+}
+
+/**
+ * Latest state of a conversation: its last message and, when the graph is paused before running
+ * the tools that message calls, the checkpoint ID that identifies the pause.
+ */
+interface ConversationState {
+    lastMessage: BaseMessage | undefined;
+    pausedAt: string | null;
+}
+
+/**
+ * Returns the plain text of a message, dropping any non-text content parts.
+ */
+function messageText(message: BaseMessage): string {
+    if (typeof message.content === 'string') {
+        return message.content;
+    }
+    return message.content.map((part: any) => part.type === 'text' ? part.text : '').join('');
+}
+
+export class LangGraphTaskAgent implements ChatAgent {
+    readonly id = 'langgraph';
+    readonly name = 'LangGraph Agent';
+    readonly description = 'Task management agent built with LangGraph, running in this app.';
 
-export class LangGraphTaskAgent {
     private taskService: TaskService;
-    private llm: AzureChatOpenAI | null = null;
+    private llm: BaseChatModel | null = null;
     private agent: any = null;
-    private memory: MemorySaver;
+    private memory: SqliteCheckpointSaver;
     private sessionIds: Map<string, string> = new Map();
+    private initializationError: string | null = null;
+    private approvalTools: Set<string>;
+    private configurationHint: string = 'Set AZURE_OPENAI_ENDPOINT and AZURE_OPENAI_DEPLOYMENT_NAME';
 
     /**
      * This contructor sets up the agent by:
-     * - Configures the Azure OpenAI client using environment variables
-     * - Create the pre-built ReAct agent a set of CRUD tools for task management.
-     * - Setting up memory management
+     * - Creating the chat model for the provider selected by `LLM_PROVIDER`, unless one is passed in
+     * - Create the pre-built ReAct agent a set of CRUD tools for task management, and a tool
+     *   proposing tasks from pasted text
+     * - Setting up memory management, persisted to SQLite through the given checkpointer
+     * - Pausing before tool calls that need the user's approval
+     *
+     * @param options - Optional chat model and approval settings; see `LangGraphTaskAgentOptions`.
      */
-    constructor(taskService: TaskService) {
+    constructor(taskService: TaskService, checkpointer: SqliteCheckpointSaver, options: LangGraphTaskAgentOptions = {}) {
         this.taskService = taskService;
-        this.memory = new MemorySaver();
+        this.memory = checkpointer;
+        const approvalToolsSetting = process.env.LANGGRAPH_APPROVAL_TOOLS;
+        this.approvalTools = new Set(options.approvalTools ?? (approvalToolsSetting !== undefined
+            ? approvalToolsSetting.split(',').map((name) => name.trim()).filter(Boolean)
+            : DEFAULT_APPROVAL_TOOLS));
         try {
-            const endpoint = process.env.AZURE_OPENAI_ENDPOINT;
-            const deploymentName = process.env.AZURE_OPENAI_DEPLOYMENT_NAME;
-
-            if (!endpoint || !deploymentName) {
-                console.warn('Azure OpenAI configuration missing for LangGraph agent');
-                return;
+            if (options.llm) {
+                this.llm = options.llm;
+            } else {
+                const selection = createChatModel();
+                if (!selection.model) {
+                    console.warn(`LLM configuration missing for LangGraph agent (${selection.provider}): ${selection.detail}`);
+                    this.configurationHint = selection.detail ?? this.configurationHint;
+                    return;
+                }
+                this.llm = selection.model;
             }
-            // Initialize Azure OpenAI client
-            const credential = new DefaultAzureCredential();
-            const azureADTokenProvider = getBearerTokenProvider(credential, "https://cognitiveservices.azure.com/.default");
-            
-            this.llm = new AzureChatOpenAI({
-                azureOpenAIEndpoint: endpoint,
-                azureOpenAIApiDeploymentName: deploymentName,
-                azureADTokenProvider: azureADTokenProvider,
-                azureOpenAIApiVersion: "2024-10-21"
-            });
-            // Define tools directly in the array
             const tools = [
-                tool(
-                    async ({ title, isComplete = false }) => {
-                        const task = await this.taskService.addTask(title, isComplete);
-                        return `Task created successfully: "${task.title}" (ID: ${task.id})`;
-                    },
-                    {
-                        name: 'createTask',
-                        description: 'Create a new task',
-                        schema: z.object({
-                            title: z.string(),
-                            isComplete: z.boolean().optional()
-                        }) as any
-                    }
-                ),
-                tool(
-                    async () => {
-                        const tasks = await this.taskService.getAllTasks();
-                        if (tasks.length === 0) {
-                            return 'No tasks found.';
-                        }
-                        return `Found ${tasks.length} tasks:\n` + 
-                               tasks.map(t => `- ${t.id}: ${t.title} (${t.isComplete ? 'Complete' : 'Incomplete'})`).join('\n');
-                    },
-                    {
-                        name: 'getTasks',
-                        description: 'Get all tasks',
-                        schema: z.object({}) as any
-                    }
-                ),
-                tool(
-                    async ({ id }) => {
-                        const task = await this.taskService.getTaskById(id);
-                        if (!task) {
-                            return `Task with ID ${id} not found.`;
-                        }
-                        return `Task ${task.id}: "${task.title}" - Status: ${task.isComplete ? 'Complete' : 'Incomplete'}`;
-                    },
-                    {
-                        name: 'getTask',
-                        description: 'Get a specific task by ID',
-                        schema: z.object({
-                            id: z.number()
-                        }) as any
-                    }
-                ),
-                tool(
-                    async ({ id, title, isComplete }) => {
-                        const updated = await this.taskService.updateTask(id, title, isComplete);
-                        if (!updated) {
-                            return `Task with ID ${id} not found.`;
-                        }
-                        return `Task ${id} updated successfully.`;
-                    },
-                    {
-                        name: 'updateTask',
-                        description: 'Update an existing task',
-                        schema: z.object({
-                            id: z.number(),
-                            title: z.string().optional(),
-                            isComplete: z.boolean().optional()
-                        }) as any
-                    }
-                ),
-                tool(
-                    async ({ id }) => {
-                        const deleted = await this.taskService.deleteTask(id);
-                        if (!deleted) {
-                            return `Task with ID ${id} not found.`;
-                        }
-                        return `Task ${id} deleted successfully.`;
-                    },
-                    {
-                        name: 'deleteTask',
-                        description: 'Delete a task',
-                        schema: z.object({
-                            id: z.number()
-                        }) as any
-                    }
-                )
+                ...createTaskTools(this.taskService, this.id),
+                createExtractTasksTool(new ActionItemExtractor({ llm: this.llm }))
             ];
 
             // Create the ReAct agent with memory
@@ -129,17 +108,62 @@ export class LangGraphTaskAgent {
                 llm: this.llm,
                 tools,
                 checkpointSaver: this.memory,
-                stateModifier: `You are an AI assistant that manages tasks using CRUD operations.
+                // Every batch of tool calls stops here; batches that need no approval are resumed right away
+                interruptBefore: this.approvalTools.size > 0 ? ['tools'] : undefined,
+                // Rebuilt on every turn so relative due dates resolve against the current date, and
+                // list names against the current lists of the user
+                stateModifier: async (state: typeof MessagesAnnotation.State, config: RunnableConfig) => [
+                    new SystemMessage(`You are an AI assistant that manages tasks using CRUD operations.
                 
 You have access to tools for creating, reading, updating, and deleting tasks.
-Always use the appropriate tool for any task management request.
+Tasks have a title, optional description, due date, priority (low, medium or high) and tags.
+Each task belongs to a task list, such as a project. When the user names a list, e.g. "add this to
+the Launch list" or "what's left in Launch?", pass its ID as listId; new tasks go to the Inbox list
+unless the user names another. The task lists are:
+${(await this.getLists(config)).map((list) => `- ${describeList(list)}`).join('\n')}
+Always use the appropriate tool for any task management request, and put details such as
+priority and due dates into their structured fields rather than into the title.
+When the user pastes an email or meeting notes and asks for its to-dos, propose them with
+extractTasks, and create only the ones the user confirms.
+Tasks can have subtasks (parentId) and be blocked by other tasks (blockedBy). To break a task down
+into steps, use decomposeTask, with sequential when the steps have to be done in order. To answer
+"what can I work on next?", use getActionableTasks.
 Be helpful and provide clear responses about the actions you take.
 
-If you need more information to complete a request, ask the user for it.`
+Today's date is ${new Date().toISOString().slice(0, 10)}.
+
+If you need more information to complete a request, ask the user for it.`),
+                    ...state.messages
+                ]
             });
         } catch (error) {
             console.error('Error initializing LangGraph agent:', error);
+            this.initializationError = `Could not initialize the LangGraph agent: ${error.message ?? error}`;
+        }
+    }
+
+    async health(): Promise<AgentHealth> {
+        if (this.agent) {
+            return { status: 'ready' };
         }
+        if (this.initializationError) {
+            return { status: 'unavailable', detail: this.initializationError };
+        }
+        return { status: 'not_configured', detail: this.configurationHint };
+    }
+
+    /**
+     * Returns the error reported while the agent cannot take messages.
+     */
+    private notConfiguredError(): AppError {
+        return new AgentNotConfiguredError(this.initializationError ?? `LangGraph agent is not configured. ${this.configurationHint}`);
+    }
+
+    /**
+     * Conversations are checkpointed to the database, so there is nothing to release.
+     */
+    async cleanup(): Promise<void> {
+        return;
     }
 
     private getSessionId(userSessionId?: string): string {
@@ -152,50 +176,372 @@ If you need more information to complete a request, ask the user for it.`
         return 'default-session';
     }
 
+    /**
+     * Builds the config of a run in a session, for a user. The user reaches the task tools as
+     * `configurable.user_id`.
+     */
+    private runConfig(sessionId: string, userId: string): RunnableConfig & { configurable: { thread_id: string; user_id: string } } {
+        return { configurable: { thread_id: sessionId, user_id: userId } };
+    }
+
+    /**
+     * Returns the task lists of the user a run is for, to name them in the prompt.
+     */
+    private async getLists(config: RunnableConfig): Promise<TaskList[]> {
+        const userId = config.configurable?.user_id;
+        return userId ? this.taskService.forOwner(userId).getLists() : [];
+    }
+
+    /**
+     * Returns the messages stored for a session, or null when no conversation is stored for it.
+     */
+    private async readMessages(sessionId: string): Promise<BaseMessage[] | null> {
+        const tuple = await this.memory.getTuple({ configurable: { thread_id: sessionId } });
+        return tuple ? (tuple.checkpoint.channel_values as any).messages as BaseMessage[] ?? [] : null;
+    }
+
+    /**
+     * Lists the stored conversations, most recently active first.
+     */
+    async listSessions(): Promise<ChatSession[]> {
+        const threads = await this.memory.listThreads();
+        return Promise.all(threads.map(async (thread) => {
+            const messages = await this.readMessages(thread.threadId);
+            const firstUserMessage = messages?.find((message) => message.getType() === 'human');
+            return {
+                sessionId: thread.threadId,
+                title: firstUserMessage ? messageText(firstUserMessage).slice(0, 80) : '',
+                createdAt: thread.createdAt,
+                updatedAt: thread.updatedAt
+            };
+        }));
+    }
+
+    /**
+     * Returns the user and assistant messages of a conversation, oldest first.
+     * Tool calls and tool results are internal to the agent and are left out, except for a
+     * pending action, which is attached to the final assistant message.
+     *
+     * @param sessionId - The session identifier used when the messages were sent.
+     * @param userId - The user the session belongs to.
+     * @returns The messages, or null when no conversation is stored for the session.
+     */
+    async getSessionHistory(sessionId: string, userId: string): Promise<ChatMessage[] | null> {
+        const messages = await this.readMessages(sessionId);
+        if (!messages) {
+            return null;
+        }
+        const pending = this.agent ? await this.getPendingReply(this.runConfig(sessionId, userId)) : null;
+        const history: ChatMessage[] = [];
+        for (const [index, message] of messages.entries()) {
+            const type = message.getType();
+            const content = messageText(message);
+            if (pending && index === messages.length - 1) {
+                history.push(pending);
+            } else if (type === 'human') {
+                history.push({ role: 'user', content });
+            } else if (type === 'ai' && content) {
+                history.push({ role: 'assistant', content });
+            }
+        }
+        return history;
+    }
+
+    /**
+     * Deletes a stored conversation.
+     *
+     * @returns True when a conversation existed for the session.
+     */
+    async deleteSession(sessionId: string): Promise<boolean> {
+        return this.memory.deleteThread(sessionId);
+    }
+
     /**
      * Processes a user message by invoking the LangGraph agent and returns the assistant's response.
      *
      * @param message - The user's input message to be processed.
      * @param sessionId - (Optional) The session identifier to maintain conversation context.
-     * @returns A promise that resolves to a `ChatMessage` object containing the assistant's reply.
+     * @param userId - The user the message comes from, whose tasks the tools work on.
+     * @returns A promise that resolves to a `ChatMessage` object containing the assistant's reply,
+     * the tasks the turn changed and the trace of the turn.
+     * @throws AgentNotConfiguredError when no chat model is configured.
+     * @throws UpstreamError when the model call or the agent run fails.
      */
-    async processMessage(message: string, sessionId?: string): Promise<ChatMessage> {
+    async processMessage(message: string, sessionId: string | undefined, userId: string): Promise<ChatMessage> {
         if (!this.agent) {
-            return {
-                role: 'assistant',
-                content: 'LangGraph agent is not properly configured. Please check your Azure OpenAI settings.'
-            };
+            throw this.notConfiguredError();
         }
 
+        const recorder = new ChatTraceRecorder(this.id, 'message', sessionId);
+        const config = this.runConfig(this.getSessionId(sessionId), userId);
+        const stopWatching = watchTaskChanges(this.taskService.forOwner(userId), this.id, config.configurable.thread_id);
         try {
-            const currentSessionId = this.getSessionId(sessionId);
+            await this.abandonPendingAction(config);
             // Invoke the agent with memory
-            const result = await this.agent.invoke(
-                { 
-                    messages: [
-                        { role: 'user', content: message }
-                    ]
-                },
-                { 
-                    configurable: { 
-                        thread_id: currentSessionId 
-                    } 
+            const reply = await this.runToReply({ messages: [{ role: 'user', content: message }] }, config, recorder);
+            return { ...reply, affectedTasks: stopWatching(), trace: recorder.finish() };
+        } catch (error) {
+            recorder.finish('error', error);
+            throw asUpstreamError(error, FAILURE_DETAIL);
+        } finally {
+            stopWatching();
+        }
+    }
+
+    /**
+     * Streams the agent's reply to a user message token by token, including tool activity.
+     *
+     * @param message - The user's input message to be processed.
+     * @param sessionId - (Optional) The session identifier to maintain conversation context.
+     * @param userId - The user the message comes from, whose tasks the tools work on.
+     * @returns An async iterable of stream events ending with a `message` or `error` event.
+     */
+    async *streamMessage(message: string, sessionId: string | undefined, userId: string): AsyncGenerator<ChatStreamEvent> {
+        if (!this.agent) {
+            yield chatErrorEvent(this.notConfiguredError(), FAILURE_DETAIL);
+            return;
+        }
+
+        const recorder = new ChatTraceRecorder(this.id, 'stream', sessionId);
+        const config = this.runConfig(this.getSessionId(sessionId), userId);
+        const stopWatching = watchTaskChanges(this.taskService.forOwner(userId), this.id, config.configurable.thread_id);
+        try {
+            await this.abandonPendingAction(config);
+            let input: any = { messages: [{ role: 'user', content: message }] };
+
+            for (;;) {
+                const events = this.agent.streamEvents(input, {
+                    ...config,
+                    version: 'v2',
+                    callbacks: [new TraceCallbackHandler(recorder)]
+                });
+                for await (const event of events) {
+                    if (event.event === 'on_chat_model_stream') {
+                        // Chunks that only carry tool call arguments have no text
+                        const content = messageText(event.data.chunk);
+                        if (content) {
+                            yield { type: 'delta', content };
+                        }
+                    } else if (event.event === 'on_tool_start') {
+                        yield { type: 'tool_start', toolCallId: event.run_id, name: event.name, args: event.data.input };
+                    } else if (event.event === 'on_tool_end') {
+                        const output = event.data.output;
+                        yield {
+                            type: 'tool_end',
+                            toolCallId: event.run_id,
+                            name: event.name,
+                            output: typeof output === 'string' ? output : messageText(output)
+                        };
+                    }
                 }
-            );
 
-            // Extract the last message from the agent's response
-            const lastMessage = result.messages[result.messages.length - 1];
-            return {
-                role: 'assistant',
-                content: lastMessage.content
-            };
+                // The checkpoint holds the complete conversation, including the final reply
+                const state = await this.readState(config);
+                if (!state.pausedAt) {
+                    const reply: ChatMessage = { role: 'assistant', content: messageText(state.lastMessage) };
+                    yield { type: 'message', message: { ...reply, affectedTasks: stopWatching(), trace: recorder.finish() } };
+                    return;
+                }
+                const pending = await this.getPendingReply(config, state);
+                if (pending) {
+                    yield { type: 'message', message: { ...pending, affectedTasks: stopWatching(), trace: recorder.finish() } };
+                    return;
+                }
+                input = null;
+            }
+        } catch (error) {
+            console.error('Error streaming message with LangGraph agent:', error);
+            recorder.finish('error', error);
+            yield chatErrorEvent(asUpstreamError(error, FAILURE_DETAIL), FAILURE_DETAIL);
+        } finally {
+            stopWatching();
+            // Only records anything when the client disconnected mid-reply
+            recorder.finish('cancelled');
+        }
+    }
 
+    /**
+     * Approves or rejects the tool calls the conversation is paused on, then lets the agent carry on.
+     *
+     * @param sessionId - The session identifier of the paused conversation.
+     * @param actionId - The `actionId` of the pending action being answered.
+     * @param approved - True to run the tool calls, false to tell the model they were rejected.
+     * @param userId - The user the session belongs to, whose tasks the tools work on.
+     * @returns The agent's next reply, or null when no pending action has that ID.
+     * @throws UpstreamError when the agent run that follows fails.
+     */
+    async resolvePendingAction(sessionId: string, actionId: string, approved: boolean, userId: string): Promise<ChatMessage | null> {
+        if (!this.agent) {
+            throw this.notConfiguredError();
+        }
+        const config = this.runConfig(sessionId, userId);
+        const state = await this.readState(config);
+        if (!state.pausedAt || state.pausedAt !== actionId) {
+            return null;
+        }
+
+        const recorder = new ChatTraceRecorder(this.id, 'approval', sessionId);
+        const stopWatching = watchTaskChanges(this.taskService.forOwner(userId), this.id, sessionId);
+        try {
+            if (!approved) {
+                await this.answerToolCalls(config, state.lastMessage as AIMessage, REJECTED_RESULT);
+            }
+            const reply = await this.runToReply(null, config, recorder);
+            return { ...reply, affectedTasks: stopWatching(), trace: recorder.finish() };
         } catch (error) {
-            console.error('Error processing message with LangGraph agent:', error);
-            return {
-                role: 'assistant',
-                content: 'Sorry, I encountered an error processing your request.'
-            };
+            recorder.finish('error', error);
+            throw asUpstreamError(error, FAILURE_DETAIL);
+        } finally {
+            stopWatching();
+        }
+    }
+
+    /**
+     * Runs the graph from `input`, or resumes it when `input` is null, until it either produces a
+     * reply or pauses before tool calls that need approval. Model and tool calls are reported to `recorder`.
+     */
+    private async runToReply(input: any, config: RunnableConfig, recorder: ChatTraceRecorder): Promise<ChatMessage> {
+        for (;;) {
+            await this.agent.invoke(input, { ...config, callbacks: [new TraceCallbackHandler(recorder)] });
+            const state = await this.readState(config);
+            if (!state.pausedAt) {
+                return { role: 'assistant', content: messageText(state.lastMessage) };
+            }
+            const pending = await this.getPendingReply(config, state);
+            if (pending) {
+                return pending;
+            }
+            // Paused before tools that need no approval, so carry on
+            input = null;
+        }
+    }
+
+    private async readState(config: RunnableConfig): Promise<ConversationState> {
+        const state = await this.agent.getState(config);
+        const messages: BaseMessage[] = state.values.messages ?? [];
+        return {
+            lastMessage: messages[messages.length - 1],
+            pausedAt: state.next.includes('tools') ? state.config.configurable.checkpoint_id : null
+        };
+    }
+
+    /**
+     * Returns the confirmation request for a conversation paused before tool calls that need
+     * approval, or null when the conversation is not waiting for the user.
+     */
+    private async getPendingReply(config: RunnableConfig, state?: ConversationState): Promise<ChatMessage | null> {
+        state = state ?? await this.readState(config);
+        const message = state.lastMessage as AIMessage | undefined;
+        const toolCalls = message?.tool_calls ?? [];
+        if (!state.pausedAt || !toolCalls.some((call) => this.needsApproval(call.name, call.args))) {
+            return null;
+        }
+
+        const pendingAction: PendingAction = {
+            actionId: state.pausedAt,
+            toolCalls: await Promise.all(toolCalls.map(async (call) => ({
+                toolCallId: call.id,
+                name: call.name,
+                args: call.args,
+                description: await this.describeToolCall(call.name, call.args, config)
+            })))
+        };
+        return { role: 'assistant', content: messageText(message) || CONFIRMATION_PROMPT, pendingAction };
+    }
+
+    /**
+     * Tells whether a tool call waits for the user's approval. Bulk calls that select no tasks do
+     * not, since the tool refuses them without changing anything.
+     */
+    private needsApproval(name: string, args: Record<string, any>): boolean {
+        return this.approvalTools.has(name) && !isMissingCriteria(name, args);
+    }
+
+    /**
+     * Rejects a pending action the user ignored, so the model sees an answer to every tool call
+     * before the next user message.
+     */
+    private async abandonPendingAction(config: RunnableConfig): Promise<void> {
+        const state = await this.readState(config);
+        if (state.pausedAt) {
+            await this.answerToolCalls(config, state.lastMessage as AIMessage, ABANDONED_RESULT);
+        }
+    }
+
+    /**
+     * Records `content` as the result of every tool call in `message` without running the tools.
+     */
+    private async answerToolCalls(config: RunnableConfig, message: AIMessage, content: string): Promise<void> {
+        const results = (message.tool_calls ?? []).map((call) => new ToolMessage({
+            tool_call_id: call.id,
+            name: call.name,
+            content
+        }));
+        await this.agent.updateState(config, { messages: results }, 'tools');
+    }
+
+    /**
+     * Summarizes a tool call for the confirmation prompt, naming the tasks it affects among those
+     * of the user the run is for.
+     */
+    private async describeToolCall(name: string, args: Record<string, any>, config: RunnableConfig): Promise<string> {
+        const tasks = this.taskService.forOwner(config.configurable?.user_id);
+        if (name === 'undoLastAction') {
+            const last = await tasks.getLastAgentChange(this.id, config.configurable?.thread_id);
+            if (!last) {
+                return 'Undo the last change made in this conversation (there is none left to undo)';
+            }
+            const task = last.task ?? last.before;
+            const target = `task ${task.id} "${task.title}"`;
+            switch (last.type) {
+                case 'created':
+                    return `Undo the creation of ${target}, deleting it`;
+                case 'updated':
+                    return `Undo the update of ${target}, restoring its earlier values`;
+                case 'deleted':
+                    return `Undo the deletion of ${target}, restoring it`;
+            }
+        }
+        if (name === 'moveTasks') {
+            const ids: number[] = Array.isArray(args.ids) ? args.ids : [];
+            const [list, page] = await Promise.all([
+                typeof args.listId === 'number' ? tasks.getListById(args.listId) : null,
+                ids.length > 0 ? tasks.queryTasks({ ids, limit: 5 }) : null
+            ]);
+            const titles = (page?.tasks ?? []).map((task) => `"${task.title}"`);
+            if (page && page.total > titles.length) {
+                titles.push(`and ${page.total - titles.length} more`);
+            }
+            const moving = `${page?.total ?? 0} tasks${titles.length > 0 ? ` (${titles.join(', ')})` : ''}`;
+            return `Move ${moving} to ${list ? `list ${list.id} "${list.name}"` : `list ${args.listId}`}`;
+        }
+        if (isMissingCriteria(name, args)) {
+            return `${name === 'deleteTasks' ? 'Delete' : 'Update'} tasks, but no criteria select them, so the call is rejected and changes nothing`;
+        }
+        if (name === 'deleteTasks' || name === 'updateTasks') {
+            const { changes, ...filter } = args;
+            const page = await tasks.queryTasks({ ...filter, limit: 5 });
+            const titles = page.tasks.map((task) => `"${task.title}"`);
+            if (page.total > titles.length) {
+                titles.push(`and ${page.total - titles.length} more`);
+            }
+            const matching = `${page.total} matching tasks${titles.length > 0 ? ` (${titles.join(', ')})` : ''}`;
+            if (name === 'deleteTasks') {
+                return `Delete ${matching}`;
+            }
+            const fields = Object.entries(changes ?? {}).map(([field, value]) => `${field} to ${JSON.stringify(value)}`);
+            return `Update ${matching}: set ${fields.join(', ')}`;
+        }
+        const { id, ...changes } = args;
+        const task = typeof id === 'number' ? await tasks.getTaskById(id) : null;
+        const target = task ? `task ${task.id} "${task.title}"` : `task ${id}`;
+        if (name === 'deleteTask') {
+            return `Delete ${target}`;
+        }
+        if (name === 'updateTask') {
+            const fields = Object.entries(changes).map(([field, value]) => `${field} to ${JSON.stringify(value)}`);
+            return `Update ${target}: set ${fields.join(', ')}`;
         }
+        return `Run ${name} with ${JSON.stringify(args)}`;
     }
 }
@@ -0,0 +1,172 @@
+import { AgentsClient } from '@azure/ai-agents';
+
+/**
+ * The part of `AgentsClient` needed to manage threads, so tests can pass a stub instead.
+ */
+export type ThreadsClient = Pick<AgentsClient, 'threads'>;
+
+interface SessionThread {
+    threadId: Promise<string>;
+    lastUsed: number;
+    activeCalls: number;
+    /** Tail of the per-session queue; calls on one thread run one at a time. Never rejects. */
+    queue: Promise<void>;
+}
+
+/**
+ * Exclusive use of a session's thread, handed out by `SessionThreadManager.acquire`.
+ */
+export interface ThreadLease {
+    threadId: string;
+    release(): void;
+}
+
+export const DEFAULT_THREAD_IDLE_TTL_MS = 30 * 60 * 1000;
+const DEFAULT_SESSION_ID = 'default-session';
+
+/**
+ * Maps chat session IDs to Azure AI Foundry conversation threads.
+ *
+ * Threads are created on first use, reused for later messages in the same session, and deleted
+ * on the Foundry side once a session has been idle for longer than the TTL. Calls for the same
+ * session are serialized, because Foundry rejects new messages while a run is active on a thread.
+ */
+export class SessionThreadManager {
+    private client: ThreadsClient;
+    private idleTtlMs: number;
+    private sessions: Map<string, SessionThread> = new Map();
+    private sweepTimer: NodeJS.Timeout | null = null;
+
+    /**
+     * @param client - Client used to create and delete threads.
+     * @param idleTtlMs - How long a session may go unused before its thread is deleted.
+     * Defaults to `FOUNDRY_THREAD_IDLE_TTL_MS`, or 30 minutes.
+     */
+    constructor(client: ThreadsClient, idleTtlMs?: number) {
+        this.client = client;
+        this.idleTtlMs = idleTtlMs ?? (parseInt(process.env.FOUNDRY_THREAD_IDLE_TTL_MS || '', 10) || DEFAULT_THREAD_IDLE_TTL_MS);
+
+        // Sweep a few times per TTL; unref so the timer never keeps the process alive
+        this.sweepTimer = setInterval(() => {
+            this.evictIdle().catch((error) => console.error('Error evicting idle Foundry threads:', error));
+        }, Math.max(Math.floor(this.idleTtlMs / 4), 1000));
+        this.sweepTimer.unref();
+    }
+
+    /**
+     * Runs `work` with the thread belonging to `sessionId`, creating the thread if needed.
+     *
+     * @param sessionId - The chat session identifier. Requests without one share a default session.
+     * @param work - Callback that receives the Foundry thread ID.
+     * @returns The value returned by `work`.
+     */
+    async withThread<T>(sessionId: string | undefined, work: (threadId: string) => Promise<T>): Promise<T> {
+        const lease = await this.acquire(sessionId);
+        try {
+            return await work(lease.threadId);
+        } finally {
+            lease.release();
+        }
+    }
+
+    /**
+     * Waits for exclusive use of the session's thread, creating the thread if needed.
+     * The caller must call `release()` once done, typically in a `finally` block; this is the
+     * building block for work that cannot be wrapped in a single callback, such as streaming.
+     */
+    async acquire(sessionId: string | undefined): Promise<ThreadLease> {
+        const session = this.getOrCreateSession(sessionId || DEFAULT_SESSION_ID);
+        session.activeCalls++;
+
+        const previous = session.queue;
+        let unlock: () => void;
+        session.queue = new Promise<void>((resolve) => {
+            unlock = resolve;
+        });
+        let released = false;
+        const release = () => {
+            if (!released) {
+                released = true;
+                session.activeCalls--;
+                session.lastUsed = Date.now();
+                unlock();
+            }
+        };
+
+        try {
+            await previous;
+            return { threadId: await session.threadId, release };
+        } catch (error) {
+            release();
+            throw error;
+        }
+    }
+
+    /**
+     * Number of sessions that currently have a thread.
+     */
+    get size(): number {
+        return this.sessions.size;
+    }
+
+    /**
+     * Deletes the threads of sessions that have been idle longer than the TTL.
+     *
+     * @param now - Current time in milliseconds, overridable for tests.
+     */
+    async evictIdle(now: number = Date.now()): Promise<void> {
+        const expired: [string, SessionThread][] = [];
+        for (const [key, session] of this.sessions) {
+            if (session.activeCalls === 0 && now - session.lastUsed > this.idleTtlMs) {
+                expired.push([key, session]);
+            }
+        }
+        for (const [key] of expired) {
+            this.sessions.delete(key);
+        }
+        await Promise.all(expired.map(([, session]) => this.deleteThread(session)));
+    }
+
+    /**
+     * Stops the idle sweep and deletes every thread this manager created.
+     */
+    async cleanup(): Promise<void> {
+        if (this.sweepTimer) {
+            clearInterval(this.sweepTimer);
+            this.sweepTimer = null;
+        }
+        const sessions = Array.from(this.sessions.values());
+        this.sessions.clear();
+        await Promise.all(sessions.map((session) => this.deleteThread(session)));
+    }
+
+    private getOrCreateSession(key: string): SessionThread {
+        let session = this.sessions.get(key);
+        if (!session) {
+            const threadId = this.client.threads.create().then((thread) => thread.id);
+            session = {
+                threadId,
+                lastUsed: Date.now(),
+                activeCalls: 0,
+                queue: Promise.resolve()
+            };
+            this.sessions.set(key, session);
+            // Forget failed creations so the next message retries instead of reusing the error
+            threadId.catch(() => {
+                if (this.sessions.get(key) === session) {
+                    this.sessions.delete(key);
+                }
+            });
+        }
+        return session;
+    }
+
+    private async deleteThread(session: SessionThread): Promise<void> {
+        try {
+            const threadId = await session.threadId;
+            await this.client.threads.delete(threadId);
+        } catch (error) {
+            console.error('Error deleting Foundry thread:', error);
+        }
+    }
+}
@@ -0,0 +1,503 @@
+import { createSupervisor } from '@langchain/langgraph-supervisor';
+import { END, MessagesAnnotation, START, StateGraph } from '@langchain/langgraph';
+import { AIMessage, BaseMessage, SystemMessage } from '@langchain/core/messages';
+import type { RunnableConfig } from '@langchain/core/runnables';
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { SqliteCheckpointSaver } from '../database/SqliteCheckpointSaver';
+import { createChatModel } from '../llm/createChatModel';
+import { TraceCallbackHandler } from '../llm/TraceCallbackHandler';
+import { ChatTraceRecorder } from '../telemetry/ChatTraceRecorder';
+import { ChatLimiter } from '../services/ChatLimiter';
+import { AgentHealth, ChatAgent, chatErrorEvent } from './ChatAgent';
+import { AgentNotConfiguredError, AppError, asUpstreamError } from '../errors';
+import { mergeAffectedTasks } from './taskTools';
+import { AffectedTasks, ChatMessage, ChatSession, ChatStreamEvent, PendingAction } from '../types';
+
+const FAILURE_DETAIL = 'The supervisor agent could not get a reply from the language model.';
+
+/**
+ * Prefix of the tools `createSupervisor` gives the supervisor model for handing over to an agent.
+ */
+const HANDOFF_TOOL_PREFIX = 'transfer_to_';
+
+export interface SupervisorAgentOptions {
+    /** Chat model to use instead of the one selected by `LLM_PROVIDER`, e.g. a `ScriptedChatModel` in tests. */
+    llm?: BaseChatModel;
+    /**
+     * Counts each handover against the daily quotas of the specialist it goes to, and charges
+     * the specialist's tokens to it, so the unified chat routes cannot get around them.
+     */
+    limiter?: ChatLimiter;
+}
+
+/**
+ * What the specialists did during the turn in progress on a supervisor thread. Turns on a thread
+ * run one at a time, so each thread has at most one.
+ */
+interface SupervisorTurn {
+    recorder: ChatTraceRecorder;
+    /** IDs of the agents that answered, in order. */
+    agents: string[];
+    /** The last pending action an agent asked the user to confirm, with its ID prefixed by the agent's. */
+    pendingAction: PendingAction | null;
+    /** The tasks the agents changed. */
+    affectedTasks: AffectedTasks;
+}
+
+/**
+ * Returns the plain text of a message, dropping any non-text content parts.
+ */
+function messageText(message: BaseMessage | undefined): string {
+    if (!message) {
+        return '';
+    }
+    if (typeof message.content === 'string') {
+        return message.content;
+    }
+    return message.content.map((part: any) => part.type === 'text' ? part.text : '').join('');
+}
+
+/**
+ * Builds the message a specialist receives: the user's latest message, followed by what other
+ * specialists already answered to it, so e.g. the task agent can refer to an email the
+ * proofreading agent just corrected.
+ */
+function delegatedMessage(messages: BaseMessage[], agentId: string): string {
+    let lastUserIndex = -1;
+    messages.forEach((message, index) => {
+        if (message.getType() === 'human') {
+            lastUserIndex = index;
+        }
+    });
+    const request = messageText(messages[lastUserIndex]);
+    const answers = messages.slice(lastUserIndex + 1)
+        .filter((message) => message.getType() === 'ai' && message.name && message.name !== agentId
+            && !(message as AIMessage).tool_calls?.length && messageText(message))
+        .map((message) => `The ${message.name} agent answered:\n${messageText(message)}`);
+    if (answers.length === 0) {
+        return request;
+    }
+    return `${request}\n\nOther assistants have already handled part of this request.\n\n${answers.join('\n\n')}`;
+}
+
+/**
+ * Chat agent that routes every message to the specialist agents suited to it, using a supervisor
+ * graph built with `@langchain/langgraph-supervisor`.
+ *
+ * The supervisor model hands over to one specialist at a time and may call several in a turn,
+ * e.g. the proofreading agent and then the task agent for "fix this email and add a task to send
+ * it". Each specialist is a registered `ChatAgent` answering through its own `processMessage`, in
+ * a session of its own derived from the supervisor's, so it keeps its memory, approvals and
+ * tracing. Replies name the specialists that answered in `agents`.
+ *
+ * Conversations are checkpointed in the `supervisor` namespace of the shared checkpointer.
+ */
+export class SupervisorAgent implements ChatAgent {
+    readonly id = 'supervisor';
+    readonly name = 'Assistant';
+    readonly description = 'Hands each request to the agent suited to it: task management or email proofreading.';
+
+    private members: Map<string, ChatAgent>;
+    private limiter: ChatLimiter | null;
+    private graph: any = null;
+    private memory: SqliteCheckpointSaver;
+    private turns: Map<string, SupervisorTurn> = new Map();
+    /** Tail of the queue of turns on each thread; see `lockThread`. */
+    private threadQueues: Map<string, Promise<void>> = new Map();
+    private initializationError: string | null = null;
+    private configurationHint: string = 'Set AZURE_OPENAI_ENDPOINT and AZURE_OPENAI_DEPLOYMENT_NAME';
+
+    /**
+     * Builds the supervisor graph over `members`, using the chat model selected by `LLM_PROVIDER`
+     * unless one is passed in.
+     *
+     * @param members - The specialist agents to route to. Their IDs name them to the supervisor model.
+     * @param checkpointer - Stores the supervisor's conversations.
+     */
+    constructor(members: ChatAgent[], checkpointer: SqliteCheckpointSaver, options: SupervisorAgentOptions = {}) {
+        this.members = new Map(members.map((member) => [member.id, member]));
+        this.memory = checkpointer;
+        this.limiter = options.limiter ?? null;
+        try {
+            let llm = options.llm;
+            if (!llm) {
+                const selection = createChatModel();
+                if (!selection.model) {
+                    console.warn(`LLM configuration missing for supervisor agent (${selection.provider}): ${selection.detail}`);
+                    this.configurationHint = selection.detail ?? this.configurationHint;
+                    return;
+                }
+                llm = selection.model;
+            }
+
+            const agentList = members
+                .map((member) => `- ${HANDOFF_TOOL_PREFIX}${member.id}: ${member.name}. ${member.description}`)
+                .join('\n');
+            this.graph = createSupervisor({
+                agents: members.map((member) => this.createDelegate(member)),
+                llm,
+                prompt: new SystemMessage(`You are a supervisor that hands the user's requests to specialist agents.
+
+Hand over to an agent with its tool:
+${agentList}
+
+Hand each part of a request to the agent suited to it, one agent at a time. A request may need
+several agents, e.g. "fix this email and add a task to send it" needs the email proofreading agent
+and then the task agent. Do not do their work yourself.
+
+When the agents are done, answer the user. Keep results they asked for, such as a corrected
+email, in full, and summarize the rest. If an agent asks the user to confirm an action, pass the
+question on. Answer requests no agent is suited for yourself.`),
+                supervisorName: this.id,
+                // Model providers other than OpenAI ignore message names, so name the agents in the content
+                includeAgentName: 'inline'
+            }).compile({ checkpointer: this.memory });
+        } catch (error) {
+            console.error('Error initializing supervisor agent:', error);
+            this.initializationError = `Could not initialize the supervisor agent: ${error.message ?? error}`;
+        }
+    }
+
+    async health(): Promise<AgentHealth> {
+        if (this.graph) {
+            return { status: 'ready' };
+        }
+        if (this.initializationError) {
+            return { status: 'unavailable', detail: this.initializationError };
+        }
+        return { status: 'not_configured', detail: this.configurationHint };
+    }
+
+    /**
+     * Returns the error reported while the agent cannot take messages.
+     */
+    private notConfiguredError(): AppError {
+        return new AgentNotConfiguredError(this.initializationError ?? `Supervisor agent is not configured. ${this.configurationHint}`);
+    }
+
+    /**
+     * The specialists clean up after themselves; conversations are checkpointed to the database.
+     */
+    async cleanup(): Promise<void> {
+        return;
+    }
+
+    /**
+     * Returns the checkpointer thread of a session.
+     */
+    private threadId(sessionId?: string): string {
+        return `${this.id}:${sessionId || 'default-session'}`;
+    }
+
+    /**
+     * Wraps a specialist in a one-node graph for the supervisor. The node sends the specialist the
+     * latest user message in a session derived from the supervisor's thread, on behalf of the user
+     * of the turn, and adds its reply, named after it, to the supervisor's conversation.
+     *
+     * Specialists that cannot answer, e.g. because they are not configured or their daily quota is
+     * spent, report why to the supervisor, which can still answer the rest of the request.
+     */
+    private createDelegate(member: ChatAgent): any {
+        return new StateGraph(MessagesAnnotation)
+            .addNode('delegate', async (state: typeof MessagesAnnotation.State, config: RunnableConfig) => {
+                const threadId: string = config.configurable?.thread_id;
+                const userId: string = config.configurable?.user_id;
+                const turn = this.turns.get(threadId);
+                let content: string;
+                try {
+                    await this.limiter?.admitDelegate(member.id);
+                    const reply = await member.processMessage(
+                        delegatedMessage(state.messages, member.id),
+                        `${threadId}:${member.id}`,
+                        userId
+                    );
+                    await this.limiter?.recordUsage(member.id, reply.trace?.usage);
+                    content = reply.content;
+                    if (turn) {
+                        turn.agents.push(member.id);
+                        if (reply.trace) {
+                            turn.recorder.addDelegate(reply.trace);
+                        }
+                        if (reply.pendingAction) {
+                            turn.pendingAction = { ...reply.pendingAction, actionId: `${member.id}:${reply.pendingAction.actionId}` };
+                        }
+                        if (reply.affectedTasks) {
+                            turn.affectedTasks = mergeAffectedTasks(turn.affectedTasks, reply.affectedTasks);
+                        }
+                    }
+                } catch (error) {
+                    if (!(error instanceof AppError)) {
+                        throw error;
+                    }
+                    content = `The ${member.id} agent could not answer: ${error.message}`;
+                }
+                return { messages: [new AIMessage({ content, name: member.id })] };
+            })
+            .addEdge(START, 'delegate')
+            .addEdge('delegate', END)
+            .compile({ name: member.id });
+    }
+
+    /**
+     * Lists the stored conversations, most recently active first.
+     */
+    async listSessions(): Promise<ChatSession[]> {
+        const threads = await this.memory.listThreads(this.id);
+        return Promise.all(threads.map(async (thread) => {
+            const history = await this.getSessionHistory(thread.threadId);
+            const firstUserMessage = history?.find((message) => message.role === 'user');
+            return {
+                sessionId: thread.threadId,
+                title: firstUserMessage ? firstUserMessage.content.slice(0, 80) : '',
+                createdAt: thread.createdAt,
+                updatedAt: thread.updatedAt
+            };
+        }));
+    }
+
+    /**
+     * Returns the user messages and the supervisor's answers of a conversation, oldest first.
+     * Handovers and the specialists' own replies are left out; each answer names the specialists
+     * that contributed to it in `agents`.
+     *
+     * @returns The messages, or null when no conversation is stored for the session.
+     */
+    async getSessionHistory(sessionId: string): Promise<ChatMessage[] | null> {
+        const tuple = await this.memory.getTuple({ configurable: { thread_id: this.threadId(sessionId) } });
+        if (!tuple) {
+            return null;
+        }
+        const messages = (tuple.checkpoint.channel_values as any).messages as BaseMessage[] ?? [];
+        const history: ChatMessage[] = [];
+        let agents: string[] = [];
+        // A specialist's reply to a pending action is not followed by an answer of the supervisor
+        let unanswered: string | null = null;
+        const showUnanswered = () => {
+            if (unanswered !== null) {
+                history.push({ role: 'assistant', content: unanswered, agents });
+            }
+            agents = [];
+            unanswered = null;
+        };
+        for (const message of messages) {
+            const type = message.getType();
+            const content = messageText(message);
+            if (type === 'human') {
+                showUnanswered();
+                history.push({ role: 'user', content });
+            } else if (type === 'ai' && !(message as AIMessage).tool_calls?.length && content) {
+                if (message.name && this.members.has(message.name)) {
+                    agents.push(message.name);
+                    unanswered = content;
+                } else {
+                    history.push({ role: 'assistant', content, ...(agents.length > 0 ? { agents } : {}) });
+                    agents = [];
+                    unanswered = null;
+                }
+            }
+        }
+        showUnanswered();
+        return history;
+    }
+
+    /**
+     * Deletes a stored conversation, including the specialists' sessions for it.
+     *
+     * @returns True when a conversation existed for the session.
+     */
+    async deleteSession(sessionId: string): Promise<boolean> {
+        const threadId = this.threadId(sessionId);
+        await Promise.all(Array.from(this.members.values()).map((member) => member.deleteSession?.(`${threadId}:${member.id}`)));
+        return this.memory.deleteThread(threadId);
+    }
+
+    /**
+     * Processes a user message by running the supervisor graph until it answers.
+     *
+     * @param message - The user's input message to be processed.
+     * @param sessionId - (Optional) The session identifier to maintain conversation context.
+     * @param userId - The user the message comes from, on whose behalf the specialists answer.
+     * @returns The supervisor's answer, with the specialists that answered, the tasks they changed
+     * and the trace of the turn, including theirs.
+     * @throws AgentNotConfiguredError when no chat model is configured.
+     * @throws UpstreamError when the model call or the graph run fails.
+     */
+    async processMessage(message: string, sessionId: string | undefined, userId: string): Promise<ChatMessage> {
+        if (!this.graph) {
+            throw this.notConfiguredError();
+        }
+
+        const config = { configurable: { thread_id: this.threadId(sessionId), user_id: userId } };
+        const unlock = await this.lockThread(config.configurable.thread_id);
+        const turn = this.startTurn(config, 'message', sessionId);
+        try {
+            await this.graph.invoke(
+                { messages: [{ role: 'user', content: message }] },
+                { ...config, callbacks: [new TraceCallbackHandler(turn.recorder)] }
+            );
+            return await this.readReply(config, turn);
+        } catch (error) {
+            turn.recorder.finish('error', error);
+            throw asUpstreamError(error, FAILURE_DETAIL);
+        } finally {
+            this.turns.delete(config.configurable.thread_id);
+            unlock();
+        }
+    }
+
+    /**
+     * Streams the supervisor's answer token by token. Each handover is reported as a tool call
+     * of the `transfer_to_<agentId>` tool.
+     *
+     * @param message - The user's input message to be processed.
+     * @param sessionId - (Optional) The session identifier to maintain conversation context.
+     * @param userId - The user the message comes from, on whose behalf the specialists answer.
+     * @returns An async iterable of stream events ending with a `message` or `error` event.
+     */
+    async *streamMessage(message: string, sessionId: string | undefined, userId: string): AsyncGenerator<ChatStreamEvent> {
+        if (!this.graph) {
+            yield chatErrorEvent(this.notConfiguredError(), FAILURE_DETAIL);
+            return;
+        }
+
+        const config = { configurable: { thread_id: this.threadId(sessionId), user_id: userId } };
+        const unlock = await this.lockThread(config.configurable.thread_id);
+        const turn = this.startTurn(config, 'stream', sessionId);
+        try {
+            const events = this.graph.streamEvents({ messages: [{ role: 'user', content: message }] }, {
+                ...config,
+                version: 'v2',
+                callbacks: [new TraceCallbackHandler(turn.recorder)]
+            });
+            for await (const event of events) {
+                if (event.event === 'on_chat_model_stream') {
+                    const content = messageText(event.data.chunk);
+                    if (content) {
+                        yield { type: 'delta', content };
+                    }
+                } else if (event.event === 'on_tool_start' && event.name.startsWith(HANDOFF_TOOL_PREFIX)) {
+                    yield { type: 'tool_start', toolCallId: event.run_id, name: event.name };
+                } else if (event.event === 'on_tool_end' && event.name.startsWith(HANDOFF_TOOL_PREFIX)) {
+                    yield { type: 'tool_end', toolCallId: event.run_id, name: event.name };
+                }
+            }
+            yield { type: 'message', message: await this.readReply(config, turn) };
+        } catch (error) {
+            console.error('Error streaming message with supervisor agent:', error);
+            turn.recorder.finish('error', error);
+            yield chatErrorEvent(asUpstreamError(error, FAILURE_DETAIL), FAILURE_DETAIL);
+        } finally {
+            this.turns.delete(config.configurable.thread_id);
+            unlock();
+            // Only records anything when the client disconnected mid-reply
+            turn.recorder.finish('cancelled');
+        }
+    }
+
+    /**
+     * Passes the user's answer to a pending action on to the specialist that asked for it, and
+     * adds the specialist's reply to the supervisor's conversation.
+     *
+     * @param actionId - The `actionId` of the pending action, prefixed with the specialist's ID.
+     * @param userId - The user the session belongs to, on whose behalf the specialist answers.
+     * @returns The specialist's reply, or null when no pending action has that ID.
+     * @throws UpstreamError when the specialist's run that follows fails.
+     */
+    async resolvePendingAction(sessionId: string, actionId: string, approved: boolean, userId: string): Promise<ChatMessage | null> {
+        if (!this.graph) {
+            throw this.notConfiguredError();
+        }
+        const separator = actionId.indexOf(':');
+        const member = separator > 0 ? this.members.get(actionId.slice(0, separator)) : undefined;
+        if (!member?.resolvePendingAction) {
+            return null;
+        }
+
+        const config = { configurable: { thread_id: this.threadId(sessionId) } };
+        const unlock = await this.lockThread(config.configurable.thread_id);
+        const recorder = new ChatTraceRecorder(this.id, 'approval', sessionId);
+        try {
+            await this.limiter?.admitDelegate(member.id);
+            const reply = await member.resolvePendingAction(
+                `${config.configurable.thread_id}:${member.id}`,
+                actionId.slice(separator + 1),
+                approved,
+                userId
+            );
+            if (!reply) {
+                recorder.finish();
+                return null;
+            }
+            await this.limiter?.recordUsage(member.id, reply.trace?.usage);
+            if (reply.trace) {
+                recorder.addDelegate(reply.trace);
+            }
+            // Added as if the supervisor had just run, so the reply ends the turn
+            await this.graph.updateState(config, { messages: [new AIMessage({ content: reply.content, name: member.id })] }, this.id);
+            return {
+                role: 'assistant',
+                content: reply.content,
+                agents: [member.id],
+                ...(reply.pendingAction
+                    ? { pendingAction: { ...reply.pendingAction, actionId: `${member.id}:${reply.pendingAction.actionId}` } }
+                    : {}),
+                affectedTasks: reply.affectedTasks ?? { created: [], updated: [], deleted: [] },
+                trace: recorder.finish()
+            };
+        } catch (error) {
+            recorder.finish('error', error);
+            throw asUpstreamError(error, FAILURE_DETAIL);
+        } finally {
+            unlock();
+        }
+    }
+
+    /**
+     * Waits until the turns already queued on a thread are done, so that concurrent requests in
+     * one session neither take each other's entry in `turns` nor interleave their checkpoints.
+     *
+     * @returns A function that lets the next turn on the thread start.
+     */
+    private async lockThread(threadId: string): Promise<() => void> {
+        const previous = this.threadQueues.get(threadId) ?? Promise.resolve();
+        let unlock: () => void;
+        const queue = new Promise<void>((resolve) => {
+            unlock = resolve;
+        });
+        this.threadQueues.set(threadId, queue);
+        await previous;
+        return () => {
+            if (this.threadQueues.get(threadId) === queue) {
+                this.threadQueues.delete(threadId);
+            }
+            unlock();
+        };
+    }
+
+    private startTurn(config: { configurable: { thread_id: string } }, operation: 'message' | 'stream', sessionId?: string): SupervisorTurn {
+        const turn: SupervisorTurn = {
+            recorder: new ChatTraceRecorder(this.id, operation, sessionId),
+            agents: [],
+            pendingAction: null,
+            affectedTasks: { created: [], updated: [], deleted: [] }
+        };
+        this.turns.set(config.configurable.thread_id, turn);
+        return turn;
+    }
+
+    /**
+     * Builds the reply to a finished turn from the supervisor's last message.
+     */
+    private async readReply(config: RunnableConfig, turn: SupervisorTurn): Promise<ChatMessage> {
+        const state = await this.graph.getState(config);
+        const messages: BaseMessage[] = state.values.messages ?? [];
+        return {
+            role: 'assistant',
+            content: messageText(messages[messages.length - 1]),
+            agents: turn.agents,
+            ...(turn.pendingAction ? { pendingAction: turn.pendingAction } : {}),
+            affectedTasks: turn.affectedTasks,
+            trace: turn.recorder.finish()
+        };
+    }
+}
@@ -0,0 +1,369 @@
+import {
+    AgentsClient,
+    FunctionToolDefinition,
+    RunStatus,
+    RunStreamEvent,
+    RunStepStreamEvent,
+    MessageStreamEvent,
+    ErrorEvent,
+    SubmitToolOutputsAction,
+    ThreadRun,
+    ToolOutput
+} from '@azure/ai-agents';
+import { StructuredToolInterface } from '@langchain/core/tools';
+import { convertToOpenAIFunction } from '@langchain/core/utils/function_calling';
+import { chatErrorEvent } from './ChatAgent';
+import { AgentRunFailedError, UpstreamError } from '../errors';
+import { ChatTraceRecorder } from '../telemetry/ChatTraceRecorder';
+import { ChatMessage, ChatStreamEvent } from '../types';
+
+// Helpers shared by the agents backed by Azure AI Foundry Agent Service
+
+/**
+ * Run events that end a run without a reply.
+ */
+const FAILED_RUN_EVENTS: string[] = [
+    RunStreamEvent.ThreadRunFailed,
+    RunStreamEvent.ThreadRunCancelled,
+    RunStreamEvent.ThreadRunExpired,
+    RunStreamEvent.ThreadRunIncomplete
+];
+
+/**
+ * Statuses of a run that has not finished yet.
+ */
+const ACTIVE_RUN_STATUSES: RunStatus[] = ['queued', 'in_progress', 'requires_action', 'cancelling'];
+
+/**
+ * Longest a run may take before it is cancelled, unless `FOUNDRY_RUN_TIMEOUT_MS` says otherwise.
+ */
+export const DEFAULT_RUN_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Most times a run may require tool outputs before it is cancelled, so a model that keeps calling
+ * tools cannot hold the request and the session's thread forever.
+ */
+const MAX_TOOL_ROUNDS = 20;
+
+/**
+ * Reported when a run completes without adding an assistant message to the thread.
+ */
+export const NO_REPLY_DETAIL = 'The agent finished without a reply.';
+
+/**
+ * Whom function tool calls run for: the chat session, and the user whose tasks the task tools
+ * may touch.
+ */
+export interface ToolCallContext {
+    sessionId?: string;
+    userId?: string;
+}
+
+/**
+ * Converts local tools into Foundry function tool definitions, so a Foundry agent can call them.
+ */
+export function toFunctionToolDefinitions(tools: StructuredToolInterface[]): FunctionToolDefinition[] {
+    return tools.map((tool) => ({ type: 'function', function: convertToOpenAIFunction(tool) }));
+}
+
+/**
+ * Runs the function tool calls a `requires_action` run is waiting for and returns their outputs.
+ * Unknown tools and failing calls are reported to the model as the call's output, so it can recover.
+ * The tools receive the chat session as `configurable.thread_id` and the user as
+ * `configurable.user_id`, like LangGraph tools do.
+ * Each call is reported to `recorder`, when given.
+ *
+ * @returns The outputs to submit, or null when the run requires an action other than tool outputs.
+ */
+export async function runFunctionToolCalls(
+    tools: StructuredToolInterface[],
+    run: ThreadRun,
+    context: ToolCallContext = {},
+    recorder?: ChatTraceRecorder
+): Promise<ToolOutput[] | null> {
+    if (run.requiredAction?.type !== 'submit_tool_outputs') {
+        return null;
+    }
+    const { toolCalls } = (run.requiredAction as SubmitToolOutputsAction).submitToolOutputs;
+
+    return Promise.all(toolCalls.map(async (call: any) => {
+        const tool = tools.find((candidate) => candidate.name === call.function?.name);
+        recorder?.startToolCall(call.id, call.function?.name ?? call.type, call.function?.arguments);
+        if (call.type !== 'function' || !tool) {
+            const output = `Error: unknown tool ${call.function?.name ?? call.type}`;
+            recorder?.endToolCall(call.id, { error: output });
+            return { toolCallId: call.id, output };
+        }
+        try {
+            const result = await tool.invoke(JSON.parse(call.function.arguments || '{}'), {
+                configurable: { thread_id: context.sessionId, user_id: context.userId }
+            });
+            const output = typeof result === 'string' ? result : JSON.stringify(result);
+            recorder?.endToolCall(call.id, { result: output });
+            return { toolCallId: call.id, output };
+        } catch (error) {
+            console.error(`Error running Foundry tool call ${tool.name}:`, error);
+            recorder?.endToolCall(call.id, { error });
+            return { toolCallId: call.id, output: `Error: ${error.message ?? error}` };
+        }
+    }));
+}
+
+/**
+ * Returns how long a run may take, in milliseconds.
+ */
+function runTimeoutMs(): number {
+    return parseInt(process.env.FOUNDRY_RUN_TIMEOUT_MS || '', 10) || DEFAULT_RUN_TIMEOUT_MS;
+}
+
+/**
+ * Cancels a run, logging rather than throwing when the cancellation fails, since the run is given
+ * up on either way.
+ */
+async function cancelRun(client: AgentsClient, threadId: string, runId: string): Promise<void> {
+    await client.runs.cancel(threadId, runId).catch((error) => {
+        console.error(`Error cancelling Foundry run ${runId}:`, error);
+    });
+}
+
+/**
+ * Cancels a run that went on for too long and reports it as failed.
+ *
+ * @throws AgentRunFailedError always, with `reason` as the run's error.
+ */
+async function abandonRun(client: AgentsClient, threadId: string, runId: string, reason: string): Promise<never> {
+    await cancelRun(client, threadId, runId);
+    throw new AgentRunFailedError('cancelled', { message: reason });
+}
+
+/**
+ * Yields the events of a run stream until it ends or `deadline` passes, whichever comes first.
+ * A stream that goes quiet is closed at the deadline instead of being waited on.
+ */
+async function* untilDeadline<T>(stream: AsyncIterable<T>, deadline: number): AsyncGenerator<T> {
+    const events = stream[Symbol.asyncIterator]();
+    let timer: NodeJS.Timeout | undefined;
+    try {
+        while (true) {
+            const timeout = new Promise<null>((resolve) => {
+                timer = setTimeout(() => resolve(null), Math.max(0, deadline - Date.now()));
+            });
+            const next = await Promise.race([events.next(), timeout]);
+            clearTimeout(timer);
+            if (!next || next.done) {
+                return;
+            }
+            yield next.value;
+        }
+    } finally {
+        clearTimeout(timer);
+        // Not awaited: a stream waiting for its next event only settles once one arrives
+        events.return?.().catch(() => undefined);
+    }
+}
+
+/**
+ * Runs `agentId` on `threadId` and polls until the run finishes, running function tool calls
+ * with `tools` for `context` and submitting their outputs whenever the run requires action.
+ * Tool calls and the run's token usage are reported to `recorder`, when given.
+ *
+ * Runs still active after `FOUNDRY_RUN_TIMEOUT_MS` (default: 5 minutes), or requiring tool
+ * outputs more than 20 times, are cancelled.
+ *
+ * @returns The finished run.
+ * @throws AgentRunFailedError when the run was cancelled for taking too long.
+ */
+export async function pollFoundryRun(
+    client: AgentsClient,
+    threadId: string,
+    agentId: string,
+    tools: StructuredToolInterface[],
+    intervalInMs: number,
+    context: ToolCallContext = {},
+    recorder?: ChatTraceRecorder
+): Promise<ThreadRun> {
+    const timeoutMs = runTimeoutMs();
+    const deadline = Date.now() + timeoutMs;
+    let toolRounds = 0;
+    let run = await client.runs.create(threadId, agentId);
+
+    while (ACTIVE_RUN_STATUSES.includes(run.status)) {
+        if (Date.now() > deadline) {
+            await abandonRun(client, threadId, run.id, `the run took longer than ${timeoutMs / 1000} seconds`);
+        }
+        if (run.status === 'requires_action') {
+            if (++toolRounds > MAX_TOOL_ROUNDS) {
+                await abandonRun(client, threadId, run.id, `the agent asked for tool outputs more than ${MAX_TOOL_ROUNDS} times`);
+            }
+            const toolOutputs = await runFunctionToolCalls(tools, run, context, recorder);
+            run = toolOutputs
+                ? await client.runs.submitToolOutputs(threadId, run.id, toolOutputs)
+                : await client.runs.cancel(threadId, run.id);
+            continue;
+        }
+        await new Promise((resolve) => setTimeout(resolve, intervalInMs));
+        run = await client.runs.get(threadId, run.id);
+    }
+    if (run.usage) {
+        recorder?.addUsage(run.usage);
+    }
+    return run;
+}
+
+/**
+ * Returns the text of the latest assistant message on a thread, or null when there is none.
+ */
+export async function getLatestAssistantMessage(client: AgentsClient, threadId: string): Promise<ChatMessage | null> {
+    // Messages are listed newest first
+    const messages = client.messages.list(threadId);
+
+    for await (const threadMessage of messages) {
+        if (threadMessage.role === 'assistant') {
+            // Extract text content from the message
+            const textContent = threadMessage.content
+                .filter((c: any) => c.type === 'text')
+                .map((c: any) => c.text?.value || '')
+                .join('\n');
+
+            return textContent ? { role: 'assistant', content: textContent } : null;
+        }
+    }
+    return null;
+}
+
+/**
+ * Starts a streamed run of `agentId` on `threadId` and translates the Foundry events into
+ * `ChatStreamEvent`s. The last event is either `message` with the full reply or `error` with
+ * the problem details of an `AgentRunFailedError` or `UpstreamError`.
+ * When the run requires action, the function tool calls are run with `tools` for `context` and
+ * the stream continues with the events that follow the submitted outputs, up to 20 times before
+ * the run is cancelled. Tool calls and the run's token usage are reported to `recorder`, when
+ * given.
+ *
+ * Runs still going after `FOUNDRY_RUN_TIMEOUT_MS` (default: 5 minutes) are cancelled, as are runs
+ * whose events stop being read before they finish, e.g. because the client disconnected.
+ *
+ * Message and run step payloads arrive as raw service JSON (snake_case), unlike the
+ * deserialized `ThreadRun` objects of run events.
+ */
+export async function* streamFoundryRun(
+    client: AgentsClient,
+    threadId: string,
+    agentId: string,
+    tools: StructuredToolInterface[] = [],
+    context: ToolCallContext = {},
+    recorder?: ChatTraceRecorder
+): AsyncGenerator<ChatStreamEvent> {
+    const timeoutMs = runTimeoutMs();
+    const deadline = Date.now() + timeoutMs;
+    let stream = await client.runs.create(threadId, agentId).stream();
+    const startedToolCalls = new Map<string, string>();
+    let toolRounds = 0;
+    let reply = '';
+    // Set from the first run event; cleared once the run has finished or been cancelled
+    let activeRunId: string | undefined;
+
+    /**
+     * Cancels the run, if it was created, and returns the error event reporting it.
+     */
+    const cancel = async (runId: string | undefined, reason: string): Promise<ChatStreamEvent> => {
+        activeRunId = undefined;
+        if (runId) {
+            await cancelRun(client, threadId, runId);
+        }
+        const error = new AgentRunFailedError('cancelled', { message: reason });
+        return chatErrorEvent(error, error.message);
+    };
+
+    try {
+        while (stream) {
+            let continuation = null;
+
+            for await (const { event, data } of untilDeadline(stream, deadline)) {
+                const payload = data as any;
+
+                if (event === RunStreamEvent.ThreadRunCreated) {
+                    activeRunId = payload.id;
+                } else if (event === MessageStreamEvent.ThreadMessageDelta) {
+                    for (const part of payload.delta?.content ?? []) {
+                        if (part.type === 'text' && part.text?.value) {
+                            reply += part.text.value;
+                            yield { type: 'delta', content: part.text.value };
+                        }
+                    }
+                } else if (event === RunStepStreamEvent.ThreadRunStepDelta) {
+                    // Tool calls are announced incrementally; the first chunk carries the ID and name
+                    for (const call of payload.delta?.step_details?.tool_calls ?? []) {
+                        if (call.id && !startedToolCalls.has(call.id)) {
+                            const name = call.function?.name ?? call.type;
+                            startedToolCalls.set(call.id, name);
+                            yield { type: 'tool_start', toolCallId: call.id, name };
+                        }
+                    }
+                } else if (event === RunStepStreamEvent.ThreadRunStepCompleted) {
+                    for (const call of payload.step_details?.tool_calls ?? []) {
+                        const name = call.function?.name ?? startedToolCalls.get(call.id) ?? call.type;
+                        if (!startedToolCalls.has(call.id)) {
+                            yield { type: 'tool_start', toolCallId: call.id, name, args: call.function?.arguments };
+                        }
+                        yield { type: 'tool_end', toolCallId: call.id, name, output: call.function?.output ?? undefined };
+                    }
+                } else if (event === RunStreamEvent.ThreadRunRequiresAction) {
+                    activeRunId = payload.id;
+                    if (++toolRounds > MAX_TOOL_ROUNDS) {
+                        yield await cancel(payload.id, `the agent asked for tool outputs more than ${MAX_TOOL_ROUNDS} times`);
+                        return;
+                    }
+                    const toolOutputs = await runFunctionToolCalls(tools, payload, context, recorder);
+                    if (!toolOutputs) {
+                        yield await cancel(payload.id, 'the agent asked for an action this app does not support');
+                        return;
+                    }
+                    // The run carries on in a new stream once the outputs are submitted
+                    continuation = await client.runs.submitToolOutputs(threadId, payload.id, toolOutputs).stream();
+                    break;
+                } else if (event === RunStreamEvent.ThreadRunCompleted) {
+                    activeRunId = undefined;
+                    if (payload.usage) {
+                        recorder?.addUsage(payload.usage);
+                    }
+                    const message = reply ? { role: 'assistant' as const, content: reply } : await getLatestAssistantMessage(client, threadId);
+                    if (message) {
+                        yield { type: 'message', message };
+                    } else {
+                        yield chatErrorEvent(new UpstreamError(NO_REPLY_DETAIL), NO_REPLY_DETAIL);
+                    }
+                    return;
+                } else if (FAILED_RUN_EVENTS.includes(event)) {
+                    activeRunId = undefined;
+                    if (payload.usage) {
+                        recorder?.addUsage(payload.usage);
+                    }
+                    console.log(`Run completed with status: ${payload.status}`);
+                    const error = new AgentRunFailedError(payload.status, payload.lastError ?? undefined);
+                    yield chatErrorEvent(error, error.message);
+                    return;
+                } else if (event === ErrorEvent.Error) {
+                    console.error('Error event in Foundry run stream:', payload);
+                    const detail = 'Azure AI Foundry reported an error during the run.';
+                    yield chatErrorEvent(new UpstreamError(detail), detail);
+                    return;
+                }
+            }
+
+            if (!continuation && Date.now() >= deadline) {
+                yield await cancel(activeRunId, `the run took longer than ${timeoutMs / 1000} seconds`);
+                return;
+            }
+            stream = continuation;
+        }
+
+        const detail = 'The agent run ended unexpectedly.';
+        yield chatErrorEvent(new UpstreamError(detail), detail);
+    } finally {
+        // Reached with the run still going when the stream failed, ended early or stopped being read
+        if (activeRunId) {
+            await cancelRun(client, threadId, activeRunId);
+        }
+    }
+}
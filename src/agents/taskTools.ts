@@ -0,0 +1,473 @@
+import { StructuredToolInterface, ToolRunnableConfig, tool } from '@langchain/core/tools';
+import { z } from 'zod';
+import { TaskService } from '../services/TaskService';
+import { ActionItemExtractor } from '../services/ActionItemExtractor';
+import {
+    MAX_BATCH_OPERATIONS,
+    actionableTasksQuerySchema,
+    addSubtasksInputSchema,
+    createTaskInputSchema,
+    createTaskListInputSchema,
+    moveTasksInputSchema,
+    taskFilterSchema,
+    taskIdSchema,
+    taskListIdSchema,
+    taskQuerySchema,
+    updateTaskInputSchema
+} from '../schemas/tasks';
+import { extractTasksRequestSchema } from '../schemas/actionItems';
+import {
+    ActionableTasksQuery,
+    AffectedTasks,
+    ProposedTask,
+    TaskActor,
+    TaskChangeEvent,
+    TaskFilter,
+    TaskItem,
+    TaskList,
+    TaskQuery,
+    TaskTreeNode
+} from '../types';
+
+// Task management tools shared by the agents that work on the task list. Their input schemas
+// are the ones the REST routes validate with, so tool calls get the same validation.
+
+const MISSING_CRITERIA = 'Give at least one of ids, isComplete, search, priority, tag, listId or parentId to select the tasks.';
+
+function hasCriteria(filter: TaskFilter): boolean {
+    return Object.values(filter).some((value) => typeof value !== 'undefined');
+}
+
+/**
+ * Tells whether a call of `updateTasks` or `deleteTasks` selects no tasks, so the tool refuses it
+ * without changing anything.
+ */
+export function isMissingCriteria(name: string, args: Record<string, any>): boolean {
+    if (name !== 'updateTasks' && name !== 'deleteTasks') {
+        return false;
+    }
+    const { changes, ...filter } = args;
+    return !hasCriteria(filter);
+}
+
+/**
+ * Formats a task as a single line the model can read back to the user.
+ */
+export function describeTask(task: TaskItem): string {
+    const details = [
+        task.isComplete ? 'Complete' : 'Incomplete',
+        `priority: ${task.priority}`,
+        `list: ${task.listId}`
+    ];
+    if (task.dueDate) {
+        details.push(`due: ${task.dueDate}`);
+    }
+    if (task.tags.length > 0) {
+        details.push(`tags: ${task.tags.join(', ')}`);
+    }
+    if (task.parentId !== null) {
+        details.push(`subtask of: ${task.parentId}`);
+    }
+    if (task.blockedBy.length > 0) {
+        details.push(`blocked by: ${task.blockedBy.join(', ')}`);
+    }
+    const description = task.description ? ` - ${task.description}` : '';
+    return `${task.id}: "${task.title}"${description} (${details.join('; ')})`;
+}
+
+/**
+ * Formats a task tree as one line per task, subtasks indented under their parent.
+ */
+function describeTaskTree(node: TaskTreeNode, depth = 0): string[] {
+    const progress = node.progress.total > 0 ? ` [${node.progress.completed}/${node.progress.total} subtasks done]` : '';
+    const blocked = node.isBlocked ? ' [blocked]' : '';
+    return [
+        `${'  '.repeat(depth)}- ${describeTask(node)}${progress}${blocked}`,
+        ...node.subtasks.flatMap((subtask) => describeTaskTree(subtask, depth + 1))
+    ];
+}
+
+/**
+ * Formats a task list as a single line with its ID and how many tasks are left in it.
+ */
+export function describeList(list: TaskList): string {
+    const description = list.description ? ` - ${list.description}` : '';
+    return `${list.id}: "${list.name}"${description} (${list.openTaskCount} open of ${list.taskCount} tasks)`;
+}
+
+/**
+ * Formats a proposed task as a single line, with the text it was found in.
+ */
+function describeProposedTask(task: ProposedTask): string {
+    const details = [`priority: ${task.priority}`];
+    if (task.dueDate || task.dueDateHint) {
+        details.push(`due: ${[task.dueDate, task.dueDateHint && `"${task.dueDateHint}"`].filter(Boolean).join(', ')}`);
+    }
+    const description = task.description ? ` - ${task.description}` : '';
+    return `"${task.title}"${description} (${details.join('; ')}) from: "${task.sourceSnippet}"`;
+}
+
+/**
+ * Describes what undoing a change did, for the model to report back.
+ */
+function describeUndo(undone: TaskChangeEvent): string {
+    const task = undone.task ?? undone.before;
+    switch (undone.type) {
+        case 'created':
+            return `Undid the creation of task ${task.id} ("${task.title}"); it has been deleted again.`;
+        case 'updated':
+            return `Undid the update of task ${task.id}; it is back to: ${describeTask(undone.before)}`;
+        case 'deleted':
+            return `Undid the deletion of task ${task.id}; it has been restored: ${describeTask(task)}`;
+    }
+}
+
+/**
+ * Creates the tools for the task list: `createTask`, `getTasks`, `getTask`, `updateTask`,
+ * `deleteTask`, the bulk tools `createTasks`, `updateTasks` and `deleteTasks`,
+ * `undoLastAction`, the task list tools `getLists`, `createList` and `moveTasks`, and
+ * `decomposeTask` and `getActionableTasks` for subtasks and dependencies. Each tool returns a
+ * plain-text result for the model to read.
+ *
+ * Tasks are scoped to a list through their `listId` field and filter, so "what's left in Launch"
+ * is `getTasks` with the Launch list's ID. "What can I work on next?" is `getActionableTasks`.
+ *
+ * The bulk tools change many tasks in one call and one transaction, saving the model a round
+ * trip per task.
+ *
+ * Changes are recorded in the audit trail as made by `agentId`, in the chat session passed as
+ * `configurable.thread_id` when the tool is invoked. The tools work on the tasks of the user
+ * passed as `configurable.user_id`, and fail without one, so an agent can never reach another
+ * user's tasks.
+ *
+ * @param taskService - Service the tools read and change tasks through, scoped to the user of each
+ * call.
+ * @param agentId - ID of the agent the tools belong to.
+ */
+export function createTaskTools(taskService: TaskService, agentId: string): StructuredToolInterface[] {
+    const actorFor = (config?: ToolRunnableConfig): TaskActor => ({
+        type: 'agent',
+        agentId,
+        sessionId: config?.configurable?.thread_id
+    });
+    // Resolved on every call, so the tools only ever reach the tasks of the user the agent runs for
+    const tasksFor = (config?: ToolRunnableConfig): TaskService => {
+        const userId = config?.configurable?.user_id;
+        if (typeof userId !== 'string' || !userId) {
+            throw new Error('The task tools need the user they run for in configurable.user_id');
+        }
+        return taskService.forOwner(userId);
+    };
+
+    return [
+        tool(
+            async ({ isComplete = false, ...input }, config) => {
+                const task = await tasksFor(config).addTask({ isComplete, ...input }, actorFor(config));
+                return `Task created successfully: ${describeTask(task)}`;
+            },
+            {
+                name: 'createTask',
+                description: 'Create a new task, in the Inbox list unless listId names another list',
+                schema: createTaskInputSchema as any
+            }
+        ),
+        tool(
+            async (query: TaskQuery, config) => {
+                const page = await tasksFor(config).queryTasks({ limit: 20, ...query });
+                if (page.tasks.length === 0) {
+                    return page.total > 0 ? `No tasks on this page (${page.total} match in total).` : 'No tasks found.';
+                }
+                const shown = page.tasks.length < page.total
+                    ? `Showing ${page.offset + 1}-${page.offset + page.tasks.length} of ${page.total} matching tasks`
+                    : `Found ${page.total} tasks`;
+                return `${shown}:\n` + 
+                       page.tasks.map(t => `- ${describeTask(t)}`).join('\n');
+            },
+            {
+                name: 'getTasks',
+                description: 'List tasks. Use the filters to fetch only what the question needs, e.g. isComplete=false for open tasks.',
+                schema: taskQuerySchema.extend({
+                    limit: taskQuerySchema.shape.limit.describe('Maximum number of tasks to return. Defaults to 20.')
+                }) as any
+            }
+        ),
+        tool(
+            async ({ id }, config) => {
+                const tree = await tasksFor(config).getTaskTree(id);
+                if (!tree) {
+                    return `Task with ID ${id} not found.`;
+                }
+                return tree.subtasks.length > 0
+                    ? `Task with its subtasks:\n${describeTaskTree(tree).join('\n')}`
+                    : `Task ${describeTask(tree)}${tree.isBlocked ? ' [blocked]' : ''}`;
+            },
+            {
+                name: 'getTask',
+                description: 'Get a specific task by ID, with its subtasks',
+                schema: z.object({
+                    id: taskIdSchema
+                }) as any
+            }
+        ),
+        tool(
+            async ({ id, ...changes }, config) => {
+                const tasks = tasksFor(config);
+                const updated = await tasks.updateTask(id, changes, actorFor(config));
+                if (!updated) {
+                    return `Task with ID ${id} not found.`;
+                }
+                const task = await tasks.getTaskById(id);
+                return `Task updated successfully: ${describeTask(task)}`;
+            },
+            {
+                name: 'updateTask',
+                description: 'Update an existing task. Only the fields provided are changed.',
+                schema: updateTaskInputSchema.extend({
+                    id: taskIdSchema
+                }) as any
+            }
+        ),
+        tool(
+            async ({ id }, config) => {
+                const deleted = await tasksFor(config).deleteTask(id, actorFor(config));
+                if (!deleted) {
+                    return `Task with ID ${id} not found.`;
+                }
+                return `Task ${id} deleted successfully.`;
+            },
+            {
+                name: 'deleteTask',
+                description: 'Delete a task',
+                schema: z.object({
+                    id: taskIdSchema
+                }) as any
+            }
+        ),
+        tool(
+            async ({ tasks }, config) => {
+                const created = await tasksFor(config).addTasks(
+                    tasks.map((task: any) => ({ isComplete: false, ...task })),
+                    actorFor(config)
+                );
+                return `Created ${created.length} tasks:\n` + created.map(t => `- ${describeTask(t)}`).join('\n');
+            },
+            {
+                name: 'createTasks',
+                description: 'Create several tasks at once.',
+                schema: z.object({
+                    tasks: z.array(createTaskInputSchema).min(1).max(MAX_BATCH_OPERATIONS)
+                }) as any
+            }
+        ),
+        tool(
+            async ({ changes, ...filter }, config) => {
+                if (!hasCriteria(filter)) {
+                    return MISSING_CRITERIA;
+                }
+                const tasks = await tasksFor(config).updateMatching(filter, changes, actorFor(config));
+                if (tasks.length === 0) {
+                    return 'No tasks match; nothing was updated.';
+                }
+                return `Updated ${tasks.length} tasks:\n` + tasks.map(t => `- ${describeTask(t)}`).join('\n');
+            },
+            {
+                name: 'updateTasks',
+                description: 'Apply the same changes to every task matching the criteria, e.g. mark all tasks tagged "release" as complete. Criteria are combined with AND.',
+                schema: taskFilterSchema.extend({
+                    changes: updateTaskInputSchema.describe('Fields to set on every matching task.')
+                }) as any
+            }
+        ),
+        tool(
+            async (filter: TaskFilter, config) => {
+                if (!hasCriteria(filter)) {
+                    return MISSING_CRITERIA;
+                }
+                const tasks = await tasksFor(config).deleteMatching(filter, actorFor(config));
+                if (tasks.length === 0) {
+                    return 'No tasks match; nothing was deleted.';
+                }
+                return `Deleted ${tasks.length} tasks:\n` + tasks.map(t => `- ${t.id}: "${t.title}"`).join('\n');
+            },
+            {
+                name: 'deleteTasks',
+                description: 'Delete every task matching the criteria, e.g. isComplete=true to clear completed tasks. Criteria are combined with AND.',
+                schema: taskFilterSchema as any
+            }
+        ),
+        tool(
+            async (_input, config) => {
+                const actor = actorFor(config);
+                const tasks = tasksFor(config);
+                const last = await tasks.getLastAgentChange(agentId, actor.sessionId);
+                if (!last) {
+                    return 'There is no change of yours in this conversation left to undo.';
+                }
+                const outcome = await tasks.undoChange(last.id, actor);
+                if (outcome.status === 'conflict') {
+                    return `Could not undo: ${outcome.reason}.`;
+                }
+                if (outcome.status === 'not_found') {
+                    return 'There is no change of yours in this conversation left to undo.';
+                }
+                return describeUndo(last);
+            },
+            {
+                name: 'undoLastAction',
+                description: 'Undo the most recent task change you made in this conversation. Call it again to undo the change before that; bulk changes are undone one task at a time.',
+                schema: z.object({}) as any
+            }
+        ),
+        tool(
+            async (_input, config) => {
+                const lists = await tasksFor(config).getLists();
+                return `Task lists:\n` + lists.map(list => `- ${describeList(list)}`).join('\n');
+            },
+            {
+                name: 'getLists',
+                description: 'List the task lists, such as projects, with their IDs and how many tasks are open in each.',
+                schema: z.object({}) as any
+            }
+        ),
+        tool(
+            async ({ name, description }, config) => {
+                const list = await tasksFor(config).createList({ name, description });
+                return `Task list created successfully: ${describeList(list)}`;
+            },
+            {
+                name: 'createList',
+                description: 'Create a task list, e.g. for a project.',
+                schema: createTaskListInputSchema as any
+            }
+        ),
+        tool(
+            async ({ ids, listId }, config) => {
+                const moved = await tasksFor(config).moveTasks(ids, listId, actorFor(config));
+                if (!moved) {
+                    return `Task list with ID ${listId} not found.`;
+                }
+                if (moved.length === 0) {
+                    return 'No tasks were moved; they are already in that list or do not exist.';
+                }
+                return `Moved ${moved.length} tasks:\n` + moved.map(t => `- ${describeTask(t)}`).join('\n');
+            },
+            {
+                name: 'moveTasks',
+                description: 'Move tasks into another task list.',
+                schema: moveTasksInputSchema.extend({
+                    listId: taskListIdSchema.describe('ID of the list to move the tasks into.')
+                }) as any
+            }
+        ),
+        tool(
+            async ({ id, subtasks, sequential }, config) => {
+                const created = await tasksFor(config).addSubtasks(
+                    id,
+                    { subtasks: subtasks.map((subtask: any) => ({ isComplete: false, ...subtask })), sequential },
+                    actorFor(config)
+                );
+                if (!created) {
+                    return `Task with ID ${id} not found.`;
+                }
+                return `Added ${created.length} subtasks to task ${id}:\n` + created.map(t => `- ${describeTask(t)}`).join('\n');
+            },
+            {
+                name: 'decomposeTask',
+                description: 'Break a task down into subtasks, the concrete steps needed to finish it. '
+                    + 'The task is completed automatically once all its subtasks are.',
+                schema: addSubtasksInputSchema.extend({
+                    id: taskIdSchema.describe('ID of the task to break down.')
+                }) as any
+            }
+        ),
+        tool(
+            async (query: ActionableTasksQuery, config) => {
+                const tasks = await tasksFor(config).getActionableTasks({ limit: 10, ...query });
+                if (tasks.length === 0) {
+                    return 'No task can be worked on right now: every open task is blocked or waiting for its subtasks.';
+                }
+                return 'Tasks that can be worked on now, the most urgent first:\n'
+                    + tasks.map(t => `- ${describeTask(t)}`).join('\n');
+            },
+            {
+                name: 'getActionableTasks',
+                description: 'List the open tasks that can be worked on now, the most urgent first: those not blocked by an open task '
+                    + 'and without open subtasks. Use it to answer "what can I work on next?".',
+                schema: actionableTasksQuerySchema.extend({
+                    limit: actionableTasksQuerySchema.shape.limit.describe('Maximum number of tasks to return. Defaults to 10.')
+                }) as any
+            }
+        )
+    ];
+}
+
+/**
+ * Creates the `extractTasks` tool, which proposes tasks for the action items in a pasted email
+ * or meeting notes. It creates nothing: the model shows the proposals and creates the ones the
+ * user confirms, with any changes they ask for, through `createTasks`.
+ */
+export function createExtractTasksTool(extractor: ActionItemExtractor): StructuredToolInterface {
+    return tool(
+        async ({ text }, config) => {
+            const tasks = await extractor.proposeTasks(text, config);
+            if (tasks.length === 0) {
+                return 'No action items found in the text.';
+            }
+            return `Proposed ${tasks.length} tasks; none has been created yet:\n`
+                + tasks.map((task, index) => `${index + 1}. ${describeProposedTask(task)}`).join('\n')
+                + '\nShow these to the user, ask which to create and whether to change any, and only then create them with createTasks.';
+        },
+        {
+            name: 'extractTasks',
+            description: 'Find the action items in an email, meeting notes or other text the user pasted and propose them as tasks, without creating them.',
+            schema: extractTasksRequestSchema as any
+        }
+    );
+}
+
+/**
+ * Starts collecting the tasks the tools of `agentId` change in a chat session, from the changes
+ * `TaskService` publishes.
+ *
+ * @param sessionId - The session as the tools receive it in `configurable.thread_id`.
+ * @returns A function that stops collecting and returns the affected tasks.
+ */
+export function watchTaskChanges(taskService: TaskService, agentId: string, sessionId?: string): () => AffectedTasks {
+    const created = new Set<number>();
+    const updated = new Set<number>();
+    const deleted = new Set<number>();
+    const unsubscribe = taskService.onChange((event) => {
+        if (event.actor.type !== 'agent' || event.actor.agentId !== agentId || event.actor.sessionId !== sessionId) {
+            return;
+        }
+        if (event.type === 'created') {
+            // Undoing a deletion creates the task again
+            deleted.delete(event.taskId);
+            created.add(event.taskId);
+        } else if (event.type === 'deleted') {
+            created.delete(event.taskId);
+            updated.delete(event.taskId);
+            deleted.add(event.taskId);
+        } else if (!created.has(event.taskId)) {
+            updated.add(event.taskId);
+        }
+    });
+    return () => {
+        unsubscribe();
+        return { created: Array.from(created), updated: Array.from(updated), deleted: Array.from(deleted) };
+    };
+}
+
+/**
+ * Combines the tasks affected by several turns, e.g. of the agents a supervisor delegated to,
+ * keeping each task in the list of its latest change.
+ */
+export function mergeAffectedTasks(first: AffectedTasks, second: AffectedTasks): AffectedTasks {
+    const without = (ids: number[], ...others: number[][]) => ids.filter((id) => !others.some((other) => other.includes(id)));
+    const created = [...without(first.created, second.created, second.deleted), ...second.created];
+    return {
+        created,
+        updated: [...without(first.updated, second.updated, second.deleted), ...without(second.updated, created)],
+        deleted: [...without(first.deleted, second.created, second.deleted), ...second.deleted]
+    };
+}
@@ -1,16 +1,24 @@
 import express, { Request, Response } from 'express';
-import swaggerJsdoc from 'swagger-jsdoc';
 import cors from 'cors';
 import path from 'path';
 import dotenv from 'dotenv';
 import swaggerUI from 'swagger-ui-express';
 
 // Services and Agents
+import { Database } from './database/Database';
+import { SqliteCheckpointSaver } from './database/SqliteCheckpointSaver';
 import { TaskService } from './services/TaskService';
+import { ChatLimiter, createChatLimiter } from './services/ChatLimiter';
+import { ActionItemExtractor } from './services/ActionItemExtractor';
+import { ChatSessionOwners } from './services/ChatSessionOwners';
+import { Authenticator, createAuthenticator } from './auth/Authenticator';
 import { LangGraphTaskAgent } from './agents/LangGraphTaskAgent';
 import { FoundryTaskAgent } from './agents/FoundryTaskAgent';
 import { EmailTypoAgent } from './agents/EmailTypoAgent';
+import { SupervisorAgent } from './agents/SupervisorAgent';
+import { AgentRegistry } from './agents/AgentRegistry';
 import { createApiRoutes } from './routes/api';
+import { problemHandler } from './routes/problems';
 
 // Types
 import { 
@@ -23,26 +31,54 @@ dotenv.config();
 export class TaskManagerApp {
     private app: express.Application;
     private port: number;
+    private database: Database;
     private taskService: TaskService;
-    private langGraphAgent: LangGraphTaskAgent;
-    private foundryAgent: FoundryTaskAgent;
-    private emailTypoAgent: EmailTypoAgent;
+    private agents: AgentRegistry;
+    private emailAgent: EmailTypoAgent;
+    private actionItemExtractor: ActionItemExtractor;
+    private chatLimiter: ChatLimiter;
+    private authenticator: Authenticator;
+    private sessionOwners: ChatSessionOwners;
 
     constructor() {
         this.app = express();
         this.port = parseInt(process.env.PORT || '3000', 10);
         
         // Initialize services
-        this.taskService = new TaskService();
-        this.langGraphAgent = new LangGraphTaskAgent(this.taskService);
-        this.foundryAgent = new FoundryTaskAgent(this.taskService);
-        this.emailTypoAgent = new EmailTypoAgent();
+        this.database = new Database();
+        this.database.ready.catch((error) => {
+            console.error('Error applying database migrations:', error);
+            process.exit(1);
+        });
+        this.taskService = new TaskService(this.database);
+        this.chatLimiter = createChatLimiter(this.database);
+        this.authenticator = createAuthenticator();
+        this.sessionOwners = new ChatSessionOwners(this.database);
+
+        // Register chat agents; each one is served under /api/chat/:agentId, and the supervisor,
+        // which hands messages to the task and email agents, also under /api/chat
+        const checkpointer = new SqliteCheckpointSaver(this.database);
+        const taskAgent = new LangGraphTaskAgent(this.taskService, checkpointer);
+        this.emailAgent = new EmailTypoAgent();
+        this.agents = new AgentRegistry()
+            .register(new SupervisorAgent([taskAgent, this.emailAgent], checkpointer, { limiter: this.chatLimiter }))
+            .register(taskAgent)
+            .register(new FoundryTaskAgent(this.taskService))
+            .register(this.emailAgent);
+
+        this.actionItemExtractor = new ActionItemExtractor();
 
         this.setupMiddleware();
         this.setupRoutes();
     }
 
     private setupMiddleware(): void {
+        // Rate limits are per client IP, so behind a proxy such as the App Service front end
+        // the address must come from X-Forwarded-For; TRUST_PROXY takes Express's `trust proxy` values
+        const trustProxy = process.env.TRUST_PROXY;
+        if (trustProxy) {
+            this.app.set('trust proxy', /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy === 'true' ? true : trustProxy);
+        }
         this.app.use(cors());
         this.app.use(express.json());
         this.app.use(express.urlencoded({ extended: true }));
@@ -51,13 +87,24 @@ export class TaskManagerApp {
 
     private setupRoutes(): void {
         // Use the API routes module with /api prefix
-        const apiRouter = createApiRoutes(this.taskService, this.langGraphAgent, this.foundryAgent,this.emailTypoAgent);
+        const apiRouter = createApiRoutes(
+            this.taskService,
+            this.agents,
+            this.chatLimiter,
+            this.emailAgent,
+            this.actionItemExtractor,
+            this.authenticator,
+            this.sessionOwners
+        );
         this.app.use('/api', apiRouter);
 
         // Serve React app
         this.app.get('/{*any}', (req: Request, res: Response) => {
             res.sendFile(path.join(__dirname, '../public/index.html'));
         });
+
+        // Errors raised outside the route handlers, e.g. malformed JSON bodies, as problem details
+        this.app.use(problemHandler);
     }
 
     start(): void {
@@ -70,8 +117,8 @@ export class TaskManagerApp {
         console.log('Shutting down Task Manager app...');
         
         // Cleanup resources
-        this.taskService.close();
-        await this.foundryAgent.cleanup();
+        await this.agents.cleanup();
+        await this.database.close();
         
         process.exit(0);
     }
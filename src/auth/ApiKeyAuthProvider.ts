@@ -0,0 +1,80 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { Request } from 'express';
+import { UnauthorizedError } from '../errors';
+import { AuthenticatedUser } from '../types';
+import type { AuthProvider } from './Authenticator';
+
+const API_KEY_HEADER = 'X-API-Key';
+
+/**
+ * Shortest API key accepted, in characters, so keys cannot be guessed.
+ */
+const MIN_API_KEY_LENGTH = 16;
+
+/**
+ * A static API key and the user it authenticates as.
+ */
+export interface ApiKey {
+    userId: string;
+    key: string;
+}
+
+function digest(key: string): Buffer {
+    return createHash('sha256').update(key).digest();
+}
+
+/**
+ * Reads API keys from comma-separated `<user ID>:<key>` pairs. The key is everything after the
+ * first colon.
+ *
+ * @throws Error when an entry has no user ID, or a key shorter than 16 characters.
+ */
+export function parseApiKeys(value: string): ApiKey[] {
+    return value.split(',').map((entry) => entry.trim()).filter(Boolean).map((entry, index) => {
+        const separator = entry.indexOf(':');
+        const userId = separator > 0 ? entry.slice(0, separator).trim() : '';
+        const key = separator > 0 ? entry.slice(separator + 1).trim() : '';
+        if (!userId || key.length < MIN_API_KEY_LENGTH) {
+            throw new Error(
+                `AUTH_API_KEYS entry ${index + 1} must be <user ID>:<key>, with a key of at least ${MIN_API_KEY_LENGTH} characters`
+            );
+        }
+        return { userId, key };
+    });
+}
+
+/**
+ * Authenticates automation with static API keys sent in the `X-API-Key` header. Users are
+ * identified as `key:<user ID>`, so they never share tasks with a token's user of the same ID.
+ *
+ * Keys are compared by their SHA-256 digests in constant time, and every key is compared, so the
+ * response time does not reveal how much of a key, or which key, matched.
+ */
+export class ApiKeyAuthProvider implements AuthProvider {
+    readonly scheme = `ApiKey header="${API_KEY_HEADER}"`;
+    readonly credentials = `an API key in the ${API_KEY_HEADER} header`;
+
+    private keys: { userId: string; digest: Buffer }[];
+
+    constructor(keys: ApiKey[]) {
+        this.keys = keys.map(({ userId, key }) => ({ userId, digest: digest(key) }));
+    }
+
+    async authenticate(req: Request): Promise<AuthenticatedUser | null> {
+        const key = req.get(API_KEY_HEADER);
+        if (!key) {
+            return null;
+        }
+        const presented = digest(key);
+        let userId: string | null = null;
+        for (const entry of this.keys) {
+            if (timingSafeEqual(entry.digest, presented) && userId === null) {
+                userId = entry.userId;
+            }
+        }
+        if (userId === null) {
+            throw new UnauthorizedError('The API key is not valid');
+        }
+        return { id: `key:${userId}`, method: 'api-key' };
+    }
+}
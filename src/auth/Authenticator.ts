@@ -0,0 +1,136 @@
+import { Request } from 'express';
+import { UnauthorizedError } from '../errors';
+import { DEFAULT_OWNER_ID } from '../services/TaskService';
+import { AuthenticatedUser } from '../types';
+import { ApiKeyAuthProvider, parseApiKeys } from './ApiKeyAuthProvider';
+import { JwtAuthProvider, parsePublicKeys } from './JwtAuthProvider';
+
+/**
+ * One way of authenticating requests, such as bearer JWTs or API keys.
+ */
+export interface AuthProvider {
+    /** Scheme named in the `WWW-Authenticate` header of 401 responses, e.g. `Bearer`. */
+    readonly scheme: string;
+    /** The credentials the provider accepts, for error messages, e.g. `a bearer token`. */
+    readonly credentials: string;
+
+    /**
+     * Returns the user the request's credentials belong to, or null when the request carries
+     * none of the credentials this provider handles.
+     *
+     * @throws UnauthorizedError when the request carries such credentials, but they are not valid.
+     */
+    authenticate(req: Request): Promise<AuthenticatedUser | null>;
+}
+
+/**
+ * The user every request acts as while authentication is disabled. Tasks created before users
+ * existed belong to this user.
+ */
+export const LOCAL_USER: AuthenticatedUser = { id: DEFAULT_OWNER_ID, method: 'none' };
+
+/**
+ * Authenticates requests with the first provider that finds credentials it handles in them.
+ * Without providers, authentication is disabled and every request acts as `LOCAL_USER`.
+ *
+ * Providers identify users with a prefix of their own, e.g. `key:` or `jwt:`, so no credentials
+ * act as `LOCAL_USER` unless its data is handed to one of them as `localUserId`.
+ */
+export class Authenticator {
+    private providers: AuthProvider[];
+    private localUserId?: string;
+
+    /**
+     * @param localUserId - ID of the authenticated user who owns the data of `LOCAL_USER`, e.g.
+     * `key:admin`.
+     */
+    constructor(providers: AuthProvider[], localUserId?: string) {
+        this.providers = providers;
+        this.localUserId = localUserId;
+    }
+
+    get enabled(): boolean {
+        return this.providers.length > 0;
+    }
+
+    /**
+     * Value of the `WWW-Authenticate` header of 401 responses.
+     */
+    get challenge(): string {
+        return this.providers.map((provider) => provider.scheme).join(', ');
+    }
+
+    /**
+     * @throws UnauthorizedError when the request carries no credentials, or invalid ones.
+     * @throws UpstreamError when the keys to verify a token with could not be fetched.
+     */
+    async authenticate(req: Request): Promise<AuthenticatedUser> {
+        if (!this.enabled) {
+            return LOCAL_USER;
+        }
+        for (const provider of this.providers) {
+            const user = await provider.authenticate(req);
+            if (user) {
+                return user.id === this.localUserId ? { ...user, id: LOCAL_USER.id } : user;
+            }
+        }
+        const accepted = this.providers.map((provider) => provider.credentials).join(' or ');
+        throw new UnauthorizedError(`Authentication is required: send ${accepted}`);
+    }
+}
+
+/**
+ * Splits a comma-separated setting into its non-empty entries.
+ */
+function readList(value: string | undefined): string[] {
+    return (value ?? '').split(',').map((entry) => entry.trim()).filter(Boolean);
+}
+
+/**
+ * Creates the authenticator of the API routes from the environment:
+ *
+ * - `AUTH_API_KEYS`: static API keys for automation, sent in the `X-API-Key` header, as
+ *   comma-separated `<user ID>:<key>` pairs, e.g. `ci-bot:3f0c...`.
+ * - Bearer JWTs, sent in the `Authorization` header or forwarded by App Service Easy Auth in
+ *   `X-MS-TOKEN-AAD-ID-TOKEN`, are accepted when they are signed with one of the keys from
+ *   `AUTH_JWT_JWKS_URL`, `AUTH_JWT_PUBLIC_KEYS` (PEM) or `AUTH_JWT_SECRET` (HMAC).
+ *   `AUTH_JWT_ISSUER` and `AUTH_JWT_AUDIENCE` restrict the accepted `iss` and `aud` claims, and
+ *   may list several values separated by commas. The user ID is read from the claim named by
+ *   `AUTH_JWT_USER_CLAIM`, `sub` by default; use `oid` for Microsoft Entra ID.
+ * - `AUTH_LOCAL_USER`: the user, as `key:<user ID>` or `jwt:<issuer>:<user claim>`, who takes
+ *   over the tasks and chats of `LOCAL_USER`, which otherwise no credentials reach.
+ *
+ * Without any of these settings authentication is disabled, and every request acts as `LOCAL_USER`.
+ *
+ * @throws Error when a public key or API key setting cannot be read.
+ */
+export function createAuthenticator(env: NodeJS.ProcessEnv = process.env): Authenticator {
+    const providers: AuthProvider[] = [];
+
+    if (env.AUTH_API_KEYS) {
+        providers.push(new ApiKeyAuthProvider(parseApiKeys(env.AUTH_API_KEYS)));
+    }
+
+    if (env.AUTH_JWT_JWKS_URL || env.AUTH_JWT_PUBLIC_KEYS || env.AUTH_JWT_SECRET) {
+        const audiences = readList(env.AUTH_JWT_AUDIENCE);
+        if (audiences.length === 0) {
+            console.warn('AUTH_JWT_AUDIENCE is not set, so tokens issued for any app are accepted');
+        }
+        providers.push(new JwtAuthProvider({
+            secret: env.AUTH_JWT_SECRET,
+            publicKeys: parsePublicKeys(env.AUTH_JWT_PUBLIC_KEYS ?? ''),
+            jwksUrl: env.AUTH_JWT_JWKS_URL,
+            issuers: readList(env.AUTH_JWT_ISSUER),
+            audiences,
+            userClaim: env.AUTH_JWT_USER_CLAIM || undefined
+        }));
+    }
+
+    if (providers.length === 0) {
+        console.warn(
+            'Authentication is disabled: set AUTH_JWT_JWKS_URL, AUTH_JWT_PUBLIC_KEYS, AUTH_JWT_SECRET or AUTH_API_KEYS. '
+            + `Every request acts as the "${LOCAL_USER.id}" user`
+        );
+    }
+    return new Authenticator(providers, env.AUTH_LOCAL_USER || undefined);
+}
@@ -0,0 +1,306 @@
+import { KeyObject, constants, createHmac, createPublicKey, createSecretKey, timingSafeEqual, verify } from 'crypto';
+import { Request } from 'express';
+import { UnauthorizedError, UpstreamError } from '../errors';
+import { AuthenticatedUser } from '../types';
+import type { AuthProvider } from './Authenticator';
+
+/**
+ * Header in which App Service Easy Auth forwards the signed-in user's ID token, with its token
+ * store enabled.
+ */
+const EASY_AUTH_ID_TOKEN_HEADER = 'X-MS-TOKEN-AAD-ID-TOKEN';
+
+/**
+ * How long keys fetched from the JWKS URL are used before they are fetched again.
+ */
+const JWKS_MAX_AGE_MS = 60 * 60 * 1000;
+
+/**
+ * Least time between two fetches of the JWKS URL, so tokens naming unknown keys cannot flood it.
+ */
+const JWKS_MIN_REFRESH_MS = 60 * 1000;
+
+const DEFAULT_CLOCK_TOLERANCE_SECONDS = 60;
+
+type KeyFamily = 'hmac' | 'rsa' | 'rsa-pss' | 'ec';
+
+/**
+ * The accepted signature algorithms, with their hash and the kind of key they are verified with.
+ * Unsigned tokens (`none`) are never accepted.
+ */
+const ALGORITHMS: Record<string, { hash: string; family: KeyFamily }> = {
+    HS256: { hash: 'sha256', family: 'hmac' },
+    HS384: { hash: 'sha384', family: 'hmac' },
+    HS512: { hash: 'sha512', family: 'hmac' },
+    RS256: { hash: 'sha256', family: 'rsa' },
+    RS384: { hash: 'sha384', family: 'rsa' },
+    RS512: { hash: 'sha512', family: 'rsa' },
+    PS256: { hash: 'sha256', family: 'rsa-pss' },
+    PS384: { hash: 'sha384', family: 'rsa-pss' },
+    PS512: { hash: 'sha512', family: 'rsa-pss' },
+    ES256: { hash: 'sha256', family: 'ec' },
+    ES384: { hash: 'sha384', family: 'ec' },
+    ES512: { hash: 'sha512', family: 'ec' }
+};
+
+export interface JwtAuthOptions {
+    /** Shared secret of tokens signed with HS256, HS384 or HS512. */
+    secret?: string;
+    /** Public keys of tokens signed with an RSA or EC algorithm. */
+    publicKeys?: KeyObject[];
+    /**
+     * URL of a JSON Web Key Set, e.g. `https://login.microsoftonline.com/<tenant>/discovery/v2.0/keys`
+     * for Microsoft Entra ID.
+     */
+    jwksUrl?: string;
+    /** Accepted `iss` claims; any issuer when empty. */
+    issuers?: string[];
+    /** Accepted `aud` claims; any audience when empty. */
+    audiences?: string[];
+    /** Claim holding the user ID. Defaults to `sub`. */
+    userClaim?: string;
+    /** Leeway when checking `exp` and `nbf`, in seconds. Defaults to 60. */
+    clockToleranceSeconds?: number;
+}
+
+interface VerificationKey {
+    /** Key ID, matched against the `kid` header of tokens. Keys without one are tried for every token. */
+    kid?: string;
+    key: KeyObject;
+}
+
+/**
+ * Reads the PEM-encoded public keys in a setting. Line breaks may be written as `\n`, as
+ * environment variables often cannot hold them.
+ *
+ * @throws Error when a key cannot be read.
+ */
+export function parsePublicKeys(value: string): KeyObject[] {
+    const pem = value.replace(/\\n/g, '\n');
+    const blocks = pem.match(/-----BEGIN [A-Z ]+-----[\s\S]+?-----END [A-Z ]+-----/g) ?? [];
+    return blocks.map((block) => createPublicKey(block));
+}
+
+/**
+ * Tells whether a key can verify signatures of an algorithm family, so e.g. a public RSA key is
+ * never used as an HMAC secret.
+ */
+function fitsFamily(key: KeyObject, family: KeyFamily): boolean {
+    switch (family) {
+        case 'hmac':
+            return key.type === 'secret';
+        case 'rsa':
+            return key.asymmetricKeyType === 'rsa';
+        case 'rsa-pss':
+            return key.asymmetricKeyType === 'rsa' || key.asymmetricKeyType === 'rsa-pss';
+        case 'ec':
+            return key.asymmetricKeyType === 'ec';
+    }
+}
+
+function verifySignature(algorithm: { hash: string; family: KeyFamily }, key: KeyObject, data: Buffer, signature: Buffer): boolean {
+    try {
+        switch (algorithm.family) {
+            case 'hmac': {
+                const expected = createHmac(algorithm.hash, key).update(data).digest();
+                return expected.length === signature.length && timingSafeEqual(expected, signature);
+            }
+            case 'rsa':
+                return verify(algorithm.hash, data, key, signature);
+            case 'rsa-pss':
+                return verify(algorithm.hash, data, {
+                    key,
+                    padding: constants.RSA_PKCS1_PSS_PADDING,
+                    saltLength: constants.RSA_PSS_SALTLEN_DIGEST
+                }, signature);
+            case 'ec':
+                return verify(algorithm.hash, data, { key, dsaEncoding: 'ieee-p1363' }, signature);
+        }
+    } catch {
+        // Malformed signatures, e.g. of the wrong length for the key
+        return false;
+    }
+}
+
+function decodeJson(part: string): any {
+    const value = JSON.parse(Buffer.from(part, 'base64url').toString('utf8'));
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        throw new Error('Not a JSON object');
+    }
+    return value;
+}
+
+/**
+ * Authenticates requests with signed JWTs: bearer tokens in the `Authorization` header, or the
+ * ID token App Service Easy Auth forwards in `X-MS-TOKEN-AAD-ID-TOKEN`. Easy Auth's header is
+ * verified like any bearer token, so it cannot be forged by clients that bypass the front end.
+ *
+ * Tokens are verified against an HMAC secret, PEM public keys and the keys published at a
+ * JWKS URL, which are cached and fetched again when a token names a key ID they do not have,
+ * e.g. after the issuer rotated its keys. Tokens without a numeric `exp` claim, expired and not
+ * yet valid tokens are rejected, as are tokens whose issuer or audience is not among the
+ * configured ones.
+ *
+ * Users are identified as `jwt:<issuer>:<user claim>`, with the `iss` claim URL-encoded, so the
+ * same subject from two issuers, or an API key's user of that name, are different users.
+ */
+export class JwtAuthProvider implements AuthProvider {
+    readonly scheme = 'Bearer';
+    readonly credentials = 'a bearer token in the Authorization header';
+
+    private options: JwtAuthOptions;
+    private staticKeys: VerificationKey[];
+    private jwks: { keys: VerificationKey[]; fetchedAt: number } | null = null;
+    private jwksRequest: Promise<VerificationKey[]> | null = null;
+
+    constructor(options: JwtAuthOptions) {
+        this.options = options;
+        this.staticKeys = [
+            ...(options.secret ? [{ key: createSecretKey(Buffer.from(options.secret, 'utf8')) }] : []),
+            ...(options.publicKeys ?? []).map((key) => ({ key }))
+        ];
+    }
+
+    async authenticate(req: Request): Promise<AuthenticatedUser | null> {
+        const authorization = /^Bearer\s+(\S+)$/i.exec(req.get('Authorization') ?? '');
+        const token = authorization?.[1] ?? req.get(EASY_AUTH_ID_TOKEN_HEADER);
+        if (!token) {
+            return null;
+        }
+        const claims = await this.verify(token);
+        const userClaim = this.options.userClaim ?? 'sub';
+        const subject = claims[userClaim];
+        if (typeof subject !== 'string' || !subject) {
+            throw new UnauthorizedError(`The token has no ${userClaim} claim`);
+        }
+        const issuer = typeof claims.iss === 'string' ? claims.iss : '';
+        const id = `jwt:${encodeURIComponent(issuer)}:${subject}`;
+        const name = claims.name ?? claims.preferred_username;
+        return { id, ...(typeof name === 'string' ? { name } : {}), method: 'jwt' };
+    }
+
+    /**
+     * Checks the token's signature and claims.
+     *
+     * @returns The token's claims.
+     * @throws UnauthorizedError when the token is malformed, its signature does not match any key,
+     * or its claims do not hold.
+     */
+    private async verify(token: string): Promise<Record<string, any>> {
+        const parts = token.split('.');
+        let header: any;
+        let claims: Record<string, any>;
+        try {
+            if (parts.length !== 3) {
+                throw new Error('Expected three parts');
+            }
+            header = decodeJson(parts[0]);
+            claims = decodeJson(parts[1]);
+        } catch {
+            throw new UnauthorizedError('The token is not a valid JWT');
+        }
+
+        const algorithm = Object.prototype.hasOwnProperty.call(ALGORITHMS, header.alg) ? ALGORITHMS[header.alg] : null;
+        if (!algorithm) {
+            throw new UnauthorizedError(`Tokens signed with ${header.alg} are not accepted`);
+        }
+        const data = Buffer.from(`${parts[0]}.${parts[1]}`, 'utf8');
+        const signature = Buffer.from(parts[2], 'base64url');
+        const kid = typeof header.kid === 'string' ? header.kid : undefined;
+        const keys = (await this.getKeys(kid, algorithm.family)).filter(({ key }) => fitsFamily(key, algorithm.family));
+        if (!keys.some(({ key }) => verifySignature(algorithm, key, data, signature))) {
+            throw new UnauthorizedError('The token signature is not valid');
+        }
+
+        const now = Date.now() / 1000;
+        const tolerance = this.options.clockToleranceSeconds ?? DEFAULT_CLOCK_TOLERANCE_SECONDS;
+        // Tokens without an expiry would be valid forever
+        if (typeof claims.exp !== 'number' || !Number.isFinite(claims.exp)) {
+            throw new UnauthorizedError('The token has no numeric exp claim');
+        }
+        if (now > claims.exp + tolerance) {
+            throw new UnauthorizedError('The token has expired');
+        }
+        if (claims.nbf !== undefined && (typeof claims.nbf !== 'number' || !Number.isFinite(claims.nbf))) {
+            throw new UnauthorizedError('The token has a non-numeric nbf claim');
+        }
+        if (typeof claims.nbf === 'number' && now + tolerance < claims.nbf) {
+            throw new UnauthorizedError('The token is not valid yet');
+        }
+        const issuers = this.options.issuers ?? [];
+        if (issuers.length > 0 && !issuers.includes(claims.iss)) {
+            throw new UnauthorizedError('The token was not issued by an accepted issuer');
+        }
+        const audiences = this.options.audiences ?? [];
+        const tokenAudiences: unknown[] = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+        if (audiences.length > 0 && !tokenAudiences.some((audience) => audiences.includes(audience as string))) {
+            throw new UnauthorizedError('The token is not meant for this app');
+        }
+        return claims;
+    }
+
+    /**
+     * Returns the keys a token may have been signed with: the keys with its key ID, and the keys
+     * without one.
+     */
+    private async getKeys(kid: string | undefined, family: KeyFamily): Promise<VerificationKey[]> {
+        const keys = [...this.staticKeys];
+        // HMAC tokens are only ever verified with the configured secret
+        if (this.options.jwksUrl && family !== 'hmac') {
+            let published = await this.loadJwks(false);
+            if (kid && !published.some((key) => key.kid === kid)) {
+                published = await this.loadJwks(true);
+            }
+            keys.push(...published);
+        }
+        return keys.filter((key) => !kid || !key.kid || key.kid === kid);
+    }
+
+    /**
+     * Returns the keys published at the JWKS URL, fetching them when the cached ones are too old,
+     * or with `refresh` when they were not fetched within the last minute.
+     *
+     * @throws UpstreamError when no keys have been fetched yet and fetching them fails.
+     */
+    private async loadJwks(refresh: boolean): Promise<VerificationKey[]> {
+        const age = this.jwks ? Date.now() - this.jwks.fetchedAt : Infinity;
+        if (age < (refresh ? JWKS_MIN_REFRESH_MS : JWKS_MAX_AGE_MS)) {
+            return this.jwks.keys;
+        }
+        this.jwksRequest ??= this.fetchJwks().finally(() => {
+            this.jwksRequest = null;
+        });
+        try {
+            this.jwks = { keys: await this.jwksRequest, fetchedAt: Date.now() };
+        } catch (error) {
+            if (!this.jwks) {
+                throw new UpstreamError('Could not fetch the keys to verify the token with', {}, error);
+            }
+            // Keep verifying with the keys fetched before, and wait before trying again
+            console.error(`Error fetching ${this.options.jwksUrl}:`, error);
+            this.jwks.fetchedAt = Date.now() - JWKS_MAX_AGE_MS + JWKS_MIN_REFRESH_MS;
+        }
+        return this.jwks.keys;
+    }
+
+    private async fetchJwks(): Promise<VerificationKey[]> {
+        const response = await fetch(this.options.jwksUrl);
+        if (!response.ok) {
+            throw new Error(`The JWKS URL answered with status ${response.status}`);
+        }
+        const body: any = await response.json();
+        const keys: VerificationKey[] = [];
+        for (const jwk of Array.isArray(body?.keys) ? body.keys : []) {
+            if (jwk.use && jwk.use !== 'sig') {
+                continue;
+            }
+            try {
+                keys.push({ kid: jwk.kid, key: createPublicKey({ key: jwk, format: 'jwk' }) });
+            } catch (error) {
+                // Key types this app does not verify with, e.g. symmetric keys
+                console.warn(`Skipping key ${jwk.kid ?? ''} from ${this.options.jwksUrl}: ${error.message ?? error}`);
+            }
+        }
+        return keys;
+    }
+}
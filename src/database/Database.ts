@@ -0,0 +1,209 @@
+import fs from 'fs';
+import path from 'path';
+import sqlite3 from 'sqlite3';
+import { Migration, migrations as defaultMigrations } from './migrations';
+
+/**
+ * Result of a write statement, mirroring the `this` context sqlite3 passes to `run` callbacks.
+ */
+export interface RunResult {
+    lastID: number;
+    changes: number;
+}
+
+/**
+ * The subset of database operations available to services and to transaction callbacks.
+ */
+export interface SqlExecutor {
+    run(sql: string, params?: any[]): Promise<RunResult>;
+    get<T = any>(sql: string, params?: any[]): Promise<T | undefined>;
+    all<T = any>(sql: string, params?: any[]): Promise<T[]>;
+}
+
+/**
+ * Resolves the SQLite file used for application data.
+ *
+ * `DATABASE_PATH` selects the file; set it to `:memory:` to opt in to a throwaway in-memory
+ * database. When unset, data is stored in `data/tasks.db` under the working directory.
+ */
+export function resolveDatabasePath(): string {
+    const configured = process.env.DATABASE_PATH;
+    if (configured === ':memory:') {
+        return configured;
+    }
+    const filename = path.resolve(configured || path.join('data', 'tasks.db'));
+    fs.mkdirSync(path.dirname(filename), { recursive: true });
+    return filename;
+}
+
+/**
+ * Promise-based wrapper around a single sqlite3 connection.
+ *
+ * The connection runs in serialized mode so statements execute in the order they are issued.
+ * Schema migrations are applied when the database is opened, and every query waits for them
+ * to finish. Statements and transactions take turns on an exclusive lock, claimed when they are
+ * issued, so statements issued outside a transaction callback run only after it commits or rolls
+ * back, and never inside it.
+ */
+export class Database implements SqlExecutor {
+    private db: sqlite3.Database;
+    private lock: Promise<void>;
+
+    /**
+     * Resolves once all pending migrations have been applied.
+     */
+    readonly ready: Promise<void>;
+
+    constructor(filename: string = resolveDatabasePath(), migrations: Migration[] = defaultMigrations) {
+        this.db = new sqlite3.Database(filename);
+        this.db.serialize();
+        this.ready = this.migrate(migrations);
+        // Keep the lock usable even if migrations fail; `ready` still reports the error
+        this.lock = this.ready.catch(() => undefined);
+    }
+
+    async run(sql: string, params: any[] = []): Promise<RunResult> {
+        await this.ready;
+        return this.exclusive(() => this.runRaw(sql, params));
+    }
+
+    async get<T = any>(sql: string, params: any[] = []): Promise<T | undefined> {
+        await this.ready;
+        return this.exclusive(() => this.getRaw<T>(sql, params));
+    }
+
+    async all<T = any>(sql: string, params: any[] = []): Promise<T[]> {
+        await this.ready;
+        return this.exclusive(() => this.allRaw<T>(sql, params));
+    }
+
+    /**
+     * Runs `work` inside a single SQLite transaction.
+     *
+     * The transaction commits when `work` resolves and rolls back when it throws. Queries inside
+     * the callback must go through the provided executor; using the outer `Database` would wait
+     * for the transaction itself to finish and deadlock.
+     */
+    async transaction<T>(work: (tx: SqlExecutor) => Promise<T>): Promise<T> {
+        await this.ready;
+        return this.exclusive(() => this.transactionRaw(work));
+    }
+
+    close(): Promise<void> {
+        return new Promise((resolve, reject) => {
+            this.db.close((err) => (err ? reject(err) : resolve()));
+        });
+    }
+
+    /**
+     * Applies migrations newer than the recorded schema version, one transaction per migration.
+     */
+    private async migrate(migrations: Migration[]): Promise<void> {
+        await this.runRaw(`
+            CREATE TABLE IF NOT EXISTS schema_migrations (
+                version INTEGER PRIMARY KEY,
+                name TEXT NOT NULL,
+                appliedAt TEXT NOT NULL
+            )
+        `);
+
+        const row = await this.getRaw<{ version: number | null }>('SELECT MAX(version) AS version FROM schema_migrations');
+        const currentVersion = row?.version ?? 0;
+        const ordered = [...migrations].sort((a, b) => a.version - b.version);
+        const latestVersion = ordered.length > 0 ? ordered[ordered.length - 1].version : 0;
+
+        if (currentVersion > latestVersion) {
+            throw new Error(`Database schema version ${currentVersion} is newer than this application supports (${latestVersion})`);
+        }
+
+        for (const migration of ordered) {
+            if (migration.version <= currentVersion) {
+                continue;
+            }
+            await this.transactionRaw(async (tx) => {
+                for (const statement of migration.up) {
+                    await tx.run(statement);
+                }
+                await tx.run(
+                    'INSERT INTO schema_migrations (version, name, appliedAt) VALUES (?, ?, ?)',
+                    [migration.version, migration.name, new Date().toISOString()]
+                );
+            });
+            console.log(`Applied database migration ${migration.version}: ${migration.name}`);
+        }
+    }
+
+    /**
+     * Runs `work` once everything issued before it has finished. The lock is claimed before the
+     * first `await`, so nothing issued later can run first.
+     */
+    private async exclusive<T>(work: () => Promise<T>): Promise<T> {
+        const previous = this.lock;
+        let release: () => void;
+        this.lock = new Promise<void>((resolve) => {
+            release = resolve;
+        });
+        await previous;
+        try {
+            return await work();
+        } finally {
+            release!();
+        }
+    }
+
+    private async transactionRaw<T>(work: (tx: SqlExecutor) => Promise<T>): Promise<T> {
+        const tx: SqlExecutor = {
+            run: (sql, params = []) => this.runRaw(sql, params),
+            get: (sql, params = []) => this.getRaw(sql, params),
+            all: (sql, params = []) => this.allRaw(sql, params)
+        };
+
+        await this.runRaw('BEGIN IMMEDIATE');
+        try {
+            const result = await work(tx);
+            await this.runRaw('COMMIT');
+            return result;
+        } catch (error) {
+            await this.runRaw('ROLLBACK').catch((rollbackError) => {
+                console.error('Error rolling back transaction:', rollbackError);
+            });
+            throw error;
+        }
+    }
+
+    private runRaw(sql: string, params: any[] = []): Promise<RunResult> {
+        return new Promise((resolve, reject) => {
+            this.db.run(sql, params, function(err) {
+                if (err) {
+                    reject(err);
+                } else {
+                    resolve({ lastID: this.lastID, changes: this.changes });
+                }
+            });
+        });
+    }
+
+    private getRaw<T>(sql: string, params: any[] = []): Promise<T | undefined> {
+        return new Promise((resolve, reject) => {
+            this.db.get(sql, params, (err, row: T) => {
+                if (err) {
+                    reject(err);
+                } else {
+                    resolve(row);
+                }
+            });
+        });
+    }
+
+    private allRaw<T>(sql: string, params: any[] = []): Promise<T[]> {
+        return new Promise((resolve, reject) => {
+            this.db.all(sql, params, (err, rows: T[]) => {
+                if (err) {
+                    reject(err);
+                } else {
+                    resolve(rows);
+                }
+            });
+        });
+    }
+}
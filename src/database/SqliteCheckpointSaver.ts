@@ -0,0 +1,245 @@
+import type { RunnableConfig } from '@langchain/core/runnables';
+import {
+    BaseCheckpointSaver,
+    Checkpoint,
+    CheckpointListOptions,
+    CheckpointMetadata,
+    CheckpointTuple,
+    PendingWrite,
+    SerializerProtocol,
+    TASKS,
+    WRITES_IDX_MAP,
+    copyCheckpoint,
+    getCheckpointId
+} from '@langchain/langgraph-checkpoint';
+import { Database } from './Database';
+
+/**
+ * Summary of a conversation thread stored by the checkpointer.
+ */
+export interface CheckpointThread {
+    threadId: string;
+    createdAt: string;
+    updatedAt: string;
+}
+
+/**
+ * LangGraph checkpoint saver that stores graph state in the application's SQLite database,
+ * so conversations survive restarts. Tables are created by the `create-checkpoints` migration.
+ *
+ * Checkpoint IDs are time-ordered UUIDs, so the latest checkpoint of a thread is the one with
+ * the greatest ID.
+ */
+export class SqliteCheckpointSaver extends BaseCheckpointSaver {
+    private db: Database;
+
+    constructor(db: Database, serde?: SerializerProtocol) {
+        super(serde);
+        this.db = db;
+    }
+
+    async getTuple(config: RunnableConfig): Promise<CheckpointTuple | undefined> {
+        const threadId = config.configurable?.thread_id;
+        const checkpointNs = config.configurable?.checkpoint_ns ?? '';
+        const checkpointId = getCheckpointId(config);
+
+        const row = checkpointId
+            ? await this.db.get(
+                'SELECT * FROM checkpoints WHERE threadId = ? AND checkpointNs = ? AND checkpointId = ?',
+                [threadId, checkpointNs, checkpointId]
+            )
+            : await this.db.get(
+                'SELECT * FROM checkpoints WHERE threadId = ? AND checkpointNs = ? ORDER BY checkpointId DESC LIMIT 1',
+                [threadId, checkpointNs]
+            );
+        return row ? this.toTuple(row) : undefined;
+    }
+
+    async *list(config: RunnableConfig, options?: CheckpointListOptions): AsyncGenerator<CheckpointTuple> {
+        const { before, filter } = options ?? {};
+        let limit = options?.limit;
+        const conditions: string[] = [];
+        const params: any[] = [];
+
+        if (config.configurable?.thread_id) {
+            conditions.push('threadId = ?');
+            params.push(config.configurable.thread_id);
+        }
+        if (config.configurable?.checkpoint_ns !== undefined) {
+            conditions.push('checkpointNs = ?');
+            params.push(config.configurable.checkpoint_ns);
+        }
+        if (config.configurable?.checkpoint_id) {
+            conditions.push('checkpointId = ?');
+            params.push(config.configurable.checkpoint_id);
+        }
+        if (before?.configurable?.checkpoint_id) {
+            conditions.push('checkpointId < ?');
+            params.push(before.configurable.checkpoint_id);
+        }
+
+        const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+        const rows = await this.db.all(
+            `SELECT * FROM checkpoints ${where} ORDER BY threadId, checkpointNs, checkpointId DESC`,
+            params
+        );
+
+        for (const row of rows) {
+            // Metadata is serialized, so filters are applied after loading it
+            const tuple = await this.toTuple(row);
+            if (filter && !Object.entries(filter).every(([key, value]) => (tuple.metadata as any)?.[key] === value)) {
+                continue;
+            }
+            if (limit !== undefined) {
+                if (limit <= 0) {
+                    break;
+                }
+                limit -= 1;
+            }
+            yield tuple;
+        }
+    }
+
+    async put(config: RunnableConfig, checkpoint: Checkpoint, metadata: CheckpointMetadata): Promise<RunnableConfig> {
+        const threadId = config.configurable?.thread_id;
+        const checkpointNs = config.configurable?.checkpoint_ns ?? '';
+        if (threadId === undefined) {
+            throw new Error('Failed to put checkpoint. The passed RunnableConfig is missing a required "thread_id" field in its "configurable" property.');
+        }
+
+        // Pending sends are rebuilt from the parent's writes when the checkpoint is loaded
+        const prepared = copyCheckpoint(checkpoint);
+        delete prepared.pending_sends;
+        const [type, serializedCheckpoint] = this.serde.dumpsTyped(prepared);
+        const [, serializedMetadata] = this.serde.dumpsTyped(metadata);
+
+        await this.db.run(
+            `INSERT OR REPLACE INTO checkpoints
+                (threadId, checkpointNs, checkpointId, parentCheckpointId, type, checkpoint, metadata, createdAt)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+            [
+                threadId,
+                checkpointNs,
+                checkpoint.id,
+                config.configurable?.checkpoint_id ?? null,
+                type,
+                Buffer.from(serializedCheckpoint),
+                Buffer.from(serializedMetadata),
+                new Date().toISOString()
+            ]
+        );
+        return {
+            configurable: {
+                thread_id: threadId,
+                checkpoint_ns: checkpointNs,
+                checkpoint_id: checkpoint.id
+            }
+        };
+    }
+
+    async putWrites(config: RunnableConfig, writes: PendingWrite[], taskId: string): Promise<void> {
+        const threadId = config.configurable?.thread_id;
+        const checkpointNs = config.configurable?.checkpoint_ns ?? '';
+        const checkpointId = config.configurable?.checkpoint_id;
+        if (threadId === undefined) {
+            throw new Error('Failed to put writes. The passed RunnableConfig is missing a required "thread_id" field in its "configurable" property.');
+        }
+        if (checkpointId === undefined) {
+            throw new Error('Failed to put writes. The passed RunnableConfig is missing a required "checkpoint_id" field in its "configurable" property.');
+        }
+
+        await this.db.transaction(async (tx) => {
+            for (const [index, [channel, value]] of writes.entries()) {
+                const idx = WRITES_IDX_MAP[channel] ?? index;
+                const [type, serializedValue] = this.serde.dumpsTyped(value);
+                // Regular writes are kept on first save; special (negative index) writes are overwritten
+                const verb = idx >= 0 ? 'INSERT OR IGNORE' : 'INSERT OR REPLACE';
+                await tx.run(
+                    `${verb} INTO checkpoint_writes
+                        (threadId, checkpointNs, checkpointId, taskId, idx, channel, type, value)
+                     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+                    [threadId, checkpointNs, checkpointId, taskId, idx, channel, type, Buffer.from(serializedValue)]
+                );
+            }
+        });
+    }
+
+    /**
+     * Lists stored threads, most recently updated first.
+     *
+     * Agents sharing the checkpointer keep their threads apart by prefixing thread IDs with a
+     * namespace and a colon, e.g. `supervisor:<sessionId>`. With a namespace, only its threads are
+     * listed, without the prefix; without one, namespaced threads are left out.
+     */
+    async listThreads(namespace?: string): Promise<CheckpointThread[]> {
+        const prefix = namespace ? `${namespace}:` : '';
+        const threads = await this.db.all<CheckpointThread>(
+            `SELECT threadId, MIN(createdAt) AS createdAt, MAX(createdAt) AS updatedAt
+             FROM checkpoints
+             GROUP BY threadId
+             ORDER BY updatedAt DESC`
+        );
+        return threads
+            .filter((thread) => thread.threadId.startsWith(prefix) && !thread.threadId.slice(prefix.length).includes(':'))
+            .map((thread) => ({ ...thread, threadId: thread.threadId.slice(prefix.length) }));
+    }
+
+    /**
+     * Deletes every checkpoint and pending write of a thread.
+     *
+     * @returns True when the thread existed.
+     */
+    async deleteThread(threadId: string): Promise<boolean> {
+        return this.db.transaction(async (tx) => {
+            await tx.run('DELETE FROM checkpoint_writes WHERE threadId = ?', [threadId]);
+            const result = await tx.run('DELETE FROM checkpoints WHERE threadId = ?', [threadId]);
+            return result.changes > 0;
+        });
+    }
+
+    private async toTuple(row: any): Promise<CheckpointTuple> {
+        const writes = await this.db.all(
+            'SELECT * FROM checkpoint_writes WHERE threadId = ? AND checkpointNs = ? AND checkpointId = ? ORDER BY taskId, idx',
+            [row.threadId, row.checkpointNs, row.checkpointId]
+        );
+        const pendingSends = row.parentCheckpointId
+            ? await this.db.all(
+                `SELECT * FROM checkpoint_writes
+                 WHERE threadId = ? AND checkpointNs = ? AND checkpointId = ? AND channel = ?
+                 ORDER BY taskId, idx`,
+                [row.threadId, row.checkpointNs, row.parentCheckpointId, TASKS]
+            )
+            : [];
+
+        const checkpoint: Checkpoint = {
+            ...(await this.serde.loadsTyped(row.type, row.checkpoint)),
+            pending_sends: await Promise.all(pendingSends.map((write) => this.serde.loadsTyped(write.type, write.value)))
+        };
+        const tuple: CheckpointTuple = {
+            config: {
+                configurable: {
+                    thread_id: row.threadId,
+                    checkpoint_ns: row.checkpointNs,
+                    checkpoint_id: row.checkpointId
+                }
+            },
+            checkpoint,
+            metadata: await this.serde.loadsTyped(row.type, row.metadata),
+            pendingWrites: await Promise.all(writes.map(async (write) => [
+                write.taskId,
+                write.channel,
+                await this.serde.loadsTyped(write.type, write.value)
+            ] as [string, string, unknown]))
+        };
+        if (row.parentCheckpointId) {
+            tuple.parentConfig = {
+                configurable: {
+                    thread_id: row.threadId,
+                    checkpoint_ns: row.checkpointNs,
+                    checkpoint_id: row.parentCheckpointId
+                }
+            };
+        }
+        return tuple;
+    }
+}
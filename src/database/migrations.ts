@@ -0,0 +1,183 @@
+/**
+ * A forward-only schema change. Migrations are applied in ascending `version` order and each
+ * version is recorded in the `schema_migrations` table once its statements have run.
+ *
+ * Never edit a migration that has shipped; add a new one with the next version number instead.
+ */
+export interface Migration {
+    version: number;
+    name: string;
+    up: string[];
+}
+
+export const migrations: Migration[] = [
+    {
+        version: 1,
+        name: 'create-tasks',
+        up: [
+            `CREATE TABLE tasks (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                title TEXT NOT NULL,
+                isComplete BOOLEAN DEFAULT 0
+            )`
+        ]
+    },
+    {
+        version: 2,
+        name: 'add-task-details',
+        up: [
+            'ALTER TABLE tasks ADD COLUMN description TEXT',
+            'ALTER TABLE tasks ADD COLUMN dueDate TEXT',
+            `ALTER TABLE tasks ADD COLUMN priority TEXT NOT NULL DEFAULT 'medium'`,
+            `ALTER TABLE tasks ADD COLUMN tags TEXT NOT NULL DEFAULT '[]'`,
+            'ALTER TABLE tasks ADD COLUMN createdAt TEXT',
+            'ALTER TABLE tasks ADD COLUMN updatedAt TEXT',
+            'ALTER TABLE tasks ADD COLUMN completedAt TEXT',
+            `UPDATE tasks SET
+                createdAt = strftime('%Y-%m-%dT%H:%M:%fZ', 'now'),
+                updatedAt = strftime('%Y-%m-%dT%H:%M:%fZ', 'now'),
+                completedAt = CASE WHEN isComplete THEN strftime('%Y-%m-%dT%H:%M:%fZ', 'now') END`
+        ]
+    },
+    {
+        version: 3,
+        name: 'create-checkpoints',
+        up: [
+            `CREATE TABLE checkpoints (
+                threadId TEXT NOT NULL,
+                checkpointNs TEXT NOT NULL DEFAULT '',
+                checkpointId TEXT NOT NULL,
+                parentCheckpointId TEXT,
+                type TEXT NOT NULL,
+                checkpoint BLOB NOT NULL,
+                metadata BLOB NOT NULL,
+                createdAt TEXT NOT NULL,
+                PRIMARY KEY (threadId, checkpointNs, checkpointId)
+            )`,
+            `CREATE TABLE checkpoint_writes (
+                threadId TEXT NOT NULL,
+                checkpointNs TEXT NOT NULL DEFAULT '',
+                checkpointId TEXT NOT NULL,
+                taskId TEXT NOT NULL,
+                idx INTEGER NOT NULL,
+                channel TEXT NOT NULL,
+                type TEXT NOT NULL,
+                value BLOB NOT NULL,
+                PRIMARY KEY (threadId, checkpointNs, checkpointId, taskId, idx)
+            )`
+        ]
+    },
+    {
+        version: 4,
+        name: 'create-task-events',
+        up: [
+            // Change feed behind /api/tasks/events; IDs are never reused, so clients can resume after them
+            `CREATE TABLE task_events (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                type TEXT NOT NULL,
+                taskId INTEGER NOT NULL,
+                task TEXT,
+                createdAt TEXT NOT NULL
+            )`
+        ]
+    },
+    {
+        version: 5,
+        name: 'add-task-audit-trail',
+        up: [
+            'ALTER TABLE task_events ADD COLUMN before TEXT',
+            `ALTER TABLE task_events ADD COLUMN actorType TEXT NOT NULL DEFAULT 'system'`,
+            'ALTER TABLE task_events ADD COLUMN actorAgentId TEXT',
+            'ALTER TABLE task_events ADD COLUMN actorSessionId TEXT',
+            'ALTER TABLE task_events ADD COLUMN revertsEventId INTEGER',
+            'CREATE INDEX idx_task_events_task ON task_events (taskId, id)',
+            'CREATE INDEX idx_task_events_actor ON task_events (actorType, actorAgentId, actorSessionId, id)'
+        ]
+    },
+    {
+        version: 6,
+        name: 'create-rate-limit-counters',
+        up: [
+            // Chat rate limit and quota counters, one row per key and window; expiresAt is in epoch milliseconds
+            `CREATE TABLE rate_limit_counters (
+                key TEXT PRIMARY KEY,
+                count INTEGER NOT NULL,
+                expiresAt INTEGER NOT NULL
+            )`,
+            'CREATE INDEX idx_rate_limit_counters_expiry ON rate_limit_counters (expiresAt)'
+        ]
+    },
+    {
+        version: 7,
+        name: 'create-task-lists',
+        up: [
+            `CREATE TABLE task_lists (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                name TEXT NOT NULL COLLATE NOCASE UNIQUE,
+                description TEXT,
+                createdAt TEXT NOT NULL,
+                updatedAt TEXT NOT NULL
+            )`,
+            // The default list, which existing tasks move into; it cannot be deleted
+            `INSERT INTO task_lists (id, name, createdAt, updatedAt) VALUES (
+                1, 'Inbox', strftime('%Y-%m-%dT%H:%M:%fZ', 'now'), strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+            )`,
+            'ALTER TABLE tasks ADD COLUMN listId INTEGER NOT NULL DEFAULT 1',
+            'CREATE INDEX idx_tasks_list ON tasks (listId)'
+        ]
+    },
+    {
+        version: 8,
+        name: 'add-task-relations',
+        up: [
+            // The parent task of a subtask, and the IDs of the tasks blocking a task, as a JSON array like tags
+            'ALTER TABLE tasks ADD COLUMN parentId INTEGER',
+            `ALTER TABLE tasks ADD COLUMN blockedBy TEXT NOT NULL DEFAULT '[]'`,
+            'CREATE INDEX idx_tasks_parent ON tasks (parentId)'
+        ]
+    },
+    {
+        version: 9,
+        name: 'add-owners',
+        up: [
+            // Tasks and their changes belong to the user who created them; existing ones to the
+            // local user
+            `ALTER TABLE tasks ADD COLUMN ownerId TEXT NOT NULL DEFAULT 'local'`,
+            'CREATE INDEX idx_tasks_owner ON tasks (ownerId, id)',
+            `ALTER TABLE task_events ADD COLUMN ownerId TEXT NOT NULL DEFAULT 'local'`,
+            'CREATE INDEX idx_task_events_owner ON task_events (ownerId, id)',
+            // List names are unique per owner; the Inbox list has no owner and is shared by
+            // everyone
+            `CREATE TABLE task_lists_owned (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                ownerId TEXT,
+                name TEXT NOT NULL COLLATE NOCASE,
+                description TEXT,
+                createdAt TEXT NOT NULL,
+                updatedAt TEXT NOT NULL,
+                UNIQUE (ownerId, name)
+            )`,
+            `INSERT INTO task_lists_owned (id, ownerId, name, description, createdAt, updatedAt)
+             SELECT id, CASE WHEN id = 1 THEN NULL ELSE 'local' END, name, description, createdAt, updatedAt FROM task_lists`,
+            // Keep IDs of deleted lists from being reused
+            `UPDATE sqlite_sequence SET seq = (SELECT seq FROM sqlite_sequence WHERE name = 'task_lists')
+             WHERE name = 'task_lists_owned'`,
+            'DROP TABLE task_lists',
+            'ALTER TABLE task_lists_owned RENAME TO task_lists',
+            // The user each chat session belongs to, claimed by the first message sent in it
+            `CREATE TABLE chat_sessions (
+                sessionId TEXT PRIMARY KEY,
+                ownerId TEXT NOT NULL,
+                createdAt TEXT NOT NULL
+            )`,
+            // Stored conversations, of the task agent and the supervisor, belong to the local user
+            `INSERT INTO chat_sessions (sessionId, ownerId, createdAt)
+             SELECT sessionId, 'local', MIN(createdAt) FROM (
+                SELECT CASE WHEN threadId LIKE 'supervisor:%' THEN substr(threadId, 12) ELSE threadId END AS sessionId, createdAt
+                FROM checkpoints
+             )
+             WHERE instr(sessionId, ':') = 0
+             GROUP BY sessionId`
+        ]
+    }
+];
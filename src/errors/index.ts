@@ -0,0 +1,168 @@
+import { ProblemDetails } from '../types';
+
+// Typed errors thrown by services and agents, rendered as RFC 7807 problem details by the routes
+
+/**
+ * Base class of the errors the app knows how to report. Each subclass stands for one problem
+ * type, with the HTTP status it is answered with and whether trying again may help.
+ */
+export abstract class AppError extends Error {
+    /** Identifies the problem type; see `PROBLEM_TYPE_BASE`. */
+    abstract readonly type: string;
+    abstract readonly title: string;
+    abstract readonly status: number;
+    /** True when the same request may succeed later, so clients can offer to retry it. */
+    readonly retryable: boolean = false;
+    /** Extra members added to the problem details, e.g. the index of a failed batch operation. */
+    readonly extensions: Record<string, unknown>;
+    /** The error that caused this one, logged but never sent to clients. */
+    readonly cause?: unknown;
+
+    constructor(detail: string, extensions: Record<string, unknown> = {}, cause?: unknown) {
+        super(detail);
+        this.name = new.target.name;
+        this.extensions = extensions;
+        this.cause = cause;
+    }
+
+    toProblem(instance?: string): ProblemDetails {
+        return {
+            ...this.extensions,
+            type: this.type,
+            title: this.title,
+            status: this.status,
+            detail: this.message,
+            ...(instance ? { instance } : {}),
+            retryable: this.retryable
+        };
+    }
+}
+
+/**
+ * Prefix of the problem type URIs. They identify problem types and are not meant to be fetched.
+ */
+export const PROBLEM_TYPE_BASE = '/problems/';
+
+/**
+ * The request is malformed or holds invalid values.
+ */
+export class ValidationError extends AppError {
+    readonly type = `${PROBLEM_TYPE_BASE}validation`;
+    readonly title = 'Invalid request';
+    readonly status = 400;
+}
+
+/**
+ * The request carries no credentials, or credentials that are invalid or expired.
+ * Answered with a `WWW-Authenticate` header naming the accepted schemes.
+ */
+export class UnauthorizedError extends AppError {
+    readonly type = `${PROBLEM_TYPE_BASE}unauthorized`;
+    readonly title = 'Authentication required';
+    readonly status = 401;
+}
+
+/**
+ * The task, change, agent, session or pending action the request refers to does not exist.
+ */
+export class NotFoundError extends AppError {
+    readonly type = `${PROBLEM_TYPE_BASE}not-found`;
+    readonly title = 'Not found';
+    readonly status = 404;
+}
+
+/**
+ * The request conflicts with the current state, e.g. undoing a change to a task that changed again.
+ */
+export class ConflictError extends AppError {
+    readonly type = `${PROBLEM_TYPE_BASE}conflict`;
+    readonly title = 'Conflict';
+    readonly status = 409;
+}
+
+/**
+ * A client sent too many chat requests, or an agent used up its daily quota.
+ * The client may try again after `retryAfter` seconds, sent as the `Retry-After` header.
+ */
+export class RateLimitError extends AppError {
+    readonly type = `${PROBLEM_TYPE_BASE}rate-limited`;
+    readonly title = 'Too many requests';
+    readonly status = 429;
+    readonly retryable = true;
+    readonly retryAfter: number;
+
+    /**
+     * @param limit - Which limit was hit, e.g. `ip` or `messages`, reported as `limit`.
+     * @param retryAfter - Seconds until the limit resets.
+     */
+    constructor(detail: string, limit: string, retryAfter: number) {
+        super(detail, { limit, retryAfter });
+        this.retryAfter = retryAfter;
+    }
+}
+
+/**
+ * A chat agent cannot take messages because required settings are missing.
+ * Retrying does not help until the app is reconfigured.
+ */
+export class AgentNotConfiguredError extends AppError {
+    readonly type = `${PROBLEM_TYPE_BASE}agent-not-configured`;
+    readonly title = 'Agent not configured';
+    readonly status = 503;
+}
+
+/**
+ * A service the app depends on, such as the language model or Azure AI Foundry, failed or
+ * could not be reached.
+ */
+export class UpstreamError extends AppError {
+    readonly type = `${PROBLEM_TYPE_BASE}upstream-failure`;
+    readonly title = 'Upstream service failed';
+    readonly status = 502;
+    readonly retryable = true;
+}
+
+/**
+ * An Azure AI Foundry agent run ended without completing, e.g. `failed` or `expired`.
+ * The run's final status is reported as `runStatus`.
+ */
+export class AgentRunFailedError extends AppError {
+    readonly type = `${PROBLEM_TYPE_BASE}agent-run-failed`;
+    readonly title = 'Agent run failed';
+    readonly status = 502;
+    readonly retryable = true;
+
+    constructor(runStatus: string, lastError?: { code?: string; message?: string }) {
+        super(
+            `The agent run ended with status ${runStatus}${lastError?.message ? `: ${lastError.message}` : ''}`,
+            { runStatus, ...(lastError?.code ? { runErrorCode: lastError.code } : {}) }
+        );
+    }
+}
+
+/**
+ * Returns `error` unchanged when it is already an `AppError`, or else wraps it in an `UpstreamError`
+ * with the given detail. Used by agents, whose unexpected failures almost always come from the
+ * model or agent service they call.
+ */
+export function asUpstreamError(error: unknown, detail: string): AppError {
+    return error instanceof AppError ? error : new UpstreamError(detail, {}, error);
+}
+
+/**
+ * Converts any error into problem details. Errors other than `AppError`s are unexpected, so
+ * their message is not shown to clients; `fallbackDetail` describes what failed instead.
+ */
+export function toProblemDetails(error: unknown, fallbackDetail: string, instance?: string): ProblemDetails {
+    if (error instanceof AppError) {
+        return error.toProblem(instance);
+    }
+    return {
+        type: 'about:blank',
+        title: 'Internal Server Error',
+        status: 500,
+        detail: fallbackDetail,
+        ...(instance ? { instance } : {}),
+        retryable: false
+    };
+}
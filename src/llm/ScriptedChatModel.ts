@@ -0,0 +1,115 @@
+import { readFileSync } from 'fs';
+import { BaseChatModel, BaseChatModelParams } from '@langchain/core/language_models/chat_models';
+import { AIMessage, AIMessageChunk, BaseMessage } from '@langchain/core/messages';
+import { ChatGenerationChunk, ChatResult } from '@langchain/core/outputs';
+import { CallbackManagerForLLMRun } from '@langchain/core/callbacks/manager';
+
+/**
+ * One reply of the scripted model: text, tool calls, or both.
+ */
+export interface ScriptedTurn {
+    content?: string;
+    toolCalls?: { name: string; args?: Record<string, unknown> }[];
+}
+
+const FALLBACK_REPLY = 'I have no scripted reply for that.';
+
+/**
+ * Chat model that replies with a predetermined list of turns instead of calling an LLM.
+ *
+ * Each call consumes the next turn, so a script such as "call createTask, then answer" drives
+ * the ReAct loop through a real tool call against `TaskService` without network access. Once
+ * the script is used up, every call returns a fixed text reply, which ends the loop.
+ */
+export class ScriptedChatModel extends BaseChatModel {
+    private turns: ScriptedTurn[];
+    private position = 0;
+    private toolCallCount = 0;
+
+    constructor(turns: ScriptedTurn[], params: BaseChatModelParams = {}) {
+        super(params);
+        this.turns = turns;
+    }
+
+    /**
+     * Loads a script from a JSON file holding an array of turns.
+     */
+    static fromFile(path: string): ScriptedChatModel {
+        const turns = JSON.parse(readFileSync(path, 'utf8'));
+        if (!Array.isArray(turns)) {
+            throw new Error(`Expected a JSON array of turns in ${path}`);
+        }
+        return new ScriptedChatModel(turns);
+    }
+
+    _llmType(): string {
+        return 'scripted';
+    }
+
+    /**
+     * Number of turns not yet replayed.
+     */
+    get remaining(): number {
+        return this.turns.length - this.position;
+    }
+
+    /**
+     * The script already names the tools to call, so binding only has to satisfy
+     * callers such as `createReactAgent` that require it.
+     */
+    bindTools(): any {
+        return this;
+    }
+
+    async _generate(_messages: BaseMessage[]): Promise<ChatResult> {
+        const { content, toolCalls } = this.nextTurn();
+        const message = new AIMessage({ content, tool_calls: toolCalls });
+        return { generations: [{ message, text: content }] };
+    }
+
+    /**
+     * Streams the text of the next turn word by word, followed by its tool calls,
+     * so streaming clients see the same kind of events as with a real model.
+     */
+    async *_streamResponseChunks(
+        _messages: BaseMessage[],
+        _options: this['ParsedCallOptions'],
+        runManager?: CallbackManagerForLLMRun
+    ): AsyncGenerator<ChatGenerationChunk> {
+        const { content, toolCalls } = this.nextTurn();
+        for (const word of content.match(/\S+\s*/g) ?? []) {
+            yield new ChatGenerationChunk({ message: new AIMessageChunk({ content: word }), text: word });
+            await runManager?.handleLLMNewToken(word);
+        }
+        if (toolCalls.length > 0) {
+            yield new ChatGenerationChunk({
+                message: new AIMessageChunk({
+                    content: '',
+                    tool_call_chunks: toolCalls.map((call, index) => ({
+                        id: call.id,
+                        name: call.name,
+                        args: JSON.stringify(call.args),
+                        index,
+                        type: 'tool_call_chunk' as const
+                    }))
+                }),
+                text: ''
+            });
+        }
+    }
+
+    private nextTurn() {
+        const turn: ScriptedTurn = this.position < this.turns.length
+            ? this.turns[this.position++]
+            : { content: FALLBACK_REPLY };
+        return {
+            content: turn.content ?? '',
+            toolCalls: (turn.toolCalls ?? []).map((call) => ({
+                id: `scripted_call_${++this.toolCallCount}`,
+                name: call.name,
+                args: call.args ?? {},
+                type: 'tool_call' as const
+            }))
+        };
+    }
+}
@@ -0,0 +1,61 @@
+import { BaseCallbackHandler } from '@langchain/core/callbacks/base';
+import type { LLMResult } from '@langchain/core/outputs';
+import type { Serialized } from '@langchain/core/load/serializable';
+import { ChatTraceRecorder } from '../telemetry/ChatTraceRecorder';
+
+/**
+ * LangChain callback handler that reports the model calls and tool calls of a LangGraph run
+ * to a `ChatTraceRecorder`. Pass it in the `callbacks` of the run's config.
+ */
+export class TraceCallbackHandler extends BaseCallbackHandler {
+    name = 'TraceCallbackHandler';
+
+    private recorder: ChatTraceRecorder;
+
+    constructor(recorder: ChatTraceRecorder) {
+        super();
+        this.recorder = recorder;
+    }
+
+    /**
+     * Adds the call's token usage, read from the messages' usage metadata or, for providers that
+     * do not set it, from the provider's own `tokenUsage` output.
+     */
+    handleLLMEnd(output: LLMResult): void {
+        let found = false;
+        for (const generation of output.generations.flat()) {
+            const usage = (generation as any).message?.usage_metadata;
+            if (usage) {
+                found = true;
+                this.recorder.addUsage({ promptTokens: usage.input_tokens, completionTokens: usage.output_tokens });
+            }
+        }
+        const tokenUsage = output.llmOutput?.tokenUsage;
+        if (!found && tokenUsage) {
+            this.recorder.addUsage({ promptTokens: tokenUsage.promptTokens, completionTokens: tokenUsage.completionTokens });
+        }
+    }
+
+    handleToolStart(tool: Serialized, input: string, runId: string, _parentRunId?: string, _tags?: string[], _metadata?: Record<string, unknown>, runName?: string): void {
+        let args: unknown = input;
+        try {
+            args = JSON.parse(input);
+        } catch {
+            // Tools called with a plain string keep it as is
+        }
+        this.recorder.startToolCall(runId, runName ?? tool.id[tool.id.length - 1], args);
+    }
+
+    /**
+     * Ends the tool call with its result, which tools return as a `ToolMessage` or as plain text.
+     * Other outputs, such as the `Command` of a supervisor's handoff tool, are not recorded.
+     */
+    handleToolEnd(output: any, runId: string): void {
+        const content = typeof output === 'string' ? output : output?.content;
+        this.recorder.endToolCall(runId, { result: typeof content === 'string' ? content : undefined });
+    }
+
+    handleToolError(error: Error, runId: string): void {
+        this.recorder.endToolCall(runId, { error });
+    }
+}
@@ -0,0 +1,99 @@
+import { AzureChatOpenAI, ChatOpenAI } from '@langchain/openai';
+import { DefaultAzureCredential, getBearerTokenProvider } from '@azure/identity';
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { ScriptedChatModel } from './ScriptedChatModel';
+
+export type LlmProvider = 'azure-openai' | 'openai-compatible' | 'scripted';
+
+export const LLM_PROVIDERS: LlmProvider[] = ['azure-openai', 'openai-compatible', 'scripted'];
+
+/**
+ * Outcome of `createChatModel`: the model, or the reason none could be created.
+ */
+export interface ChatModelSelection {
+    provider: LlmProvider;
+    model: BaseChatModel | null;
+    /** Which settings are missing or invalid; set when `model` is null. */
+    detail?: string;
+}
+
+const DEFAULT_AZURE_OPENAI_API_VERSION = '2024-10-21';
+
+/**
+ * Creates the chat model used by the LangGraph agent, selected by `LLM_PROVIDER`:
+ *
+ * - `azure-openai` (default) — `AZURE_OPENAI_ENDPOINT` and `AZURE_OPENAI_DEPLOYMENT_NAME`.
+ *   Authenticates with `AZURE_OPENAI_API_KEY` when set, otherwise with `DefaultAzureCredential`
+ *   (managed identity in Azure, developer credentials locally).
+ * - `openai-compatible` — any server speaking the OpenAI chat completions API, such as a local
+ *   model server: `OPENAI_BASE_URL`, `OPENAI_MODEL` and, if the server needs one, `OPENAI_API_KEY`.
+ * - `scripted` — `ScriptedChatModel` replaying the turns in the JSON file at `LLM_SCRIPT_PATH`,
+ *   for running the agent offline. Without a script it answers every message with a fixed reply.
+ *
+ * Errors thrown while constructing a client are left to the caller.
+ */
+export function createChatModel(env: NodeJS.ProcessEnv = process.env): ChatModelSelection {
+    const provider = (env.LLM_PROVIDER || 'azure-openai') as LlmProvider;
+
+    switch (provider) {
+        case 'azure-openai': {
+            const endpoint = env.AZURE_OPENAI_ENDPOINT;
+            const deploymentName = env.AZURE_OPENAI_DEPLOYMENT_NAME;
+            if (!endpoint || !deploymentName) {
+                return { provider, model: null, detail: 'Set AZURE_OPENAI_ENDPOINT and AZURE_OPENAI_DEPLOYMENT_NAME' };
+            }
+            const azureOpenAIApiVersion = env.AZURE_OPENAI_API_VERSION || DEFAULT_AZURE_OPENAI_API_VERSION;
+            if (env.AZURE_OPENAI_API_KEY) {
+                return {
+                    provider,
+                    model: new AzureChatOpenAI({
+                        azureOpenAIEndpoint: endpoint,
+                        azureOpenAIApiDeploymentName: deploymentName,
+                        azureOpenAIApiKey: env.AZURE_OPENAI_API_KEY,
+                        azureOpenAIApiVersion
+                    })
+                };
+            }
+            const credential = new DefaultAzureCredential();
+            const azureADTokenProvider = getBearerTokenProvider(credential, "https://cognitiveservices.azure.com/.default");
+            return {
+                provider,
+                model: new AzureChatOpenAI({
+                    azureOpenAIEndpoint: endpoint,
+                    azureOpenAIApiDeploymentName: deploymentName,
+                    azureADTokenProvider,
+                    azureOpenAIApiVersion
+                })
+            };
+        }
+        case 'openai-compatible': {
+            const baseURL = env.OPENAI_BASE_URL;
+            const model = env.OPENAI_MODEL;
+            if (!baseURL || !model) {
+                return { provider, model: null, detail: 'Set OPENAI_BASE_URL and OPENAI_MODEL' };
+            }
+            return {
+                provider,
+                model: new ChatOpenAI({
+                    model,
+                    // Local servers usually accept any key, but the client insists on one
+                    apiKey: env.OPENAI_API_KEY || 'not-needed',
+                    configuration: { baseURL }
+                })
+            };
+        }
+        case 'scripted': {
+            const scriptPath = env.LLM_SCRIPT_PATH;
+            return {
+                provider,
+                model: scriptPath ? ScriptedChatModel.fromFile(scriptPath) : new ScriptedChatModel([])
+            };
+        }
+        default:
+            return {
+                provider,
+                model: null,
+                detail: `Unknown LLM_PROVIDER "${provider}". Use one of: ${LLM_PROVIDERS.join(', ')}`
+            };
+    }
+}
@@ -1,302 +1,753 @@
-import { Router, Request, Response } from 'express';
-import swaggerJsdoc from 'swagger-jsdoc';
+import express, { Router, Request, Response } from 'express';
 import { TaskService } from '../services/TaskService';
-import { LangGraphTaskAgent } from '../agents/LangGraphTaskAgent';
-import { FoundryTaskAgent } from '../agents/FoundryTaskAgent';
+import { ChatLimiter } from '../services/ChatLimiter';
+import { ActionItemExtractor } from '../services/ActionItemExtractor';
+import { AgentRegistry } from '../agents/AgentRegistry';
+import { ChatAgent, chatErrorEvent, describeAgent } from '../agents/ChatAgent';
 import { EmailTypoAgent } from '../agents/EmailTypoAgent';
-import { ChatRequest } from '../types';
+import { openEventStream } from './sse';
+import { currentUser, requireUser } from './auth';
+import { Authenticator } from '../auth/Authenticator';
+import { ChatSessionOwners, SESSION_ID_PATTERN } from '../services/ChatSessionOwners';
+import { notFoundHandler, sendProblem } from './problems';
+import { createOpenApiDocument } from './openapi';
+import { metricsRegistry } from '../telemetry/metrics';
+import { ownUsage } from '../telemetry/ChatTraceRecorder';
+import { TASK_FORMAT_FILES, TASK_FORMATS, formatTasks, parseTasks } from '../services/taskFormats';
+import {
+    actionableTasksParamsSchema,
+    addSubtasksInputSchema,
+    createTaskInputSchema,
+    createTaskListInputSchema,
+    moveTasksInputSchema,
+    taskBatchSchema,
+    taskExportParamsSchema,
+    taskFilterParamsSchema,
+    taskImportParamsSchema,
+    taskListDeleteParamsSchema,
+    taskQueryParamsSchema,
+    updateTaskInputSchema,
+    updateTaskListInputSchema
+} from '../schemas/tasks';
+import { proofreadRequestSchema } from '../schemas/email';
+import { extractTasksRequestSchema } from '../schemas/actionItems';
+import { parseRequest, validate } from '../schemas/validate';
+import { ConflictError, NotFoundError, ValidationError, toProblemDetails } from '../errors';
+import { ChatMessage, ChatRequest, ChatStreamEvent, CreateTaskInput, TaskActor, TaskChangeEvent, TaskFilter, TaskFormat } from '../types';
+
+/**
+ * Actor recorded in the audit trail for changes made through the REST routes.
+ */
+const USER_ACTOR: TaskActor = { type: 'user' };
+
+/**
+ * Agent that answers the unified `/api/chat` routes, routing each message to the specialists.
+ */
+const UNIFIED_CHAT_AGENT = 'supervisor';
+
+/**
+ * Validates the query string of the filtered bulk routes and converts it into a `TaskFilter`.
+ * At least one criterion is required, so a missing parameter never selects every task.
+ */
+function parseTaskFilter(params: unknown): TaskFilter {
+    const filter = parseRequest(taskFilterParamsSchema, params);
+    if (Object.values(filter).every((value) => typeof value === 'undefined')) {
+        throw new ValidationError('At least one filter is required: ids, isComplete, search, priority, tag, listId or parentId');
+    }
+    return filter;
+}
+
+/**
+ * Parses a numeric route parameter such as a task ID.
+ */
+function parseId(value: string, label: string): number {
+    const id = parseInt(value, 10);
+    if (isNaN(id)) {
+        throw new ValidationError(`Invalid ${label} ID`);
+    }
+    return id;
+}
+
+/**
+ * Picks the file format of an import: the `format` parameter, or else the format matching the
+ * request's content type.
+ */
+function resolveImportFormat(req: Request, format: TaskFormat | undefined): TaskFormat {
+    const detected = format ?? TASK_FORMATS.find((candidate) => req.is(TASK_FORMAT_FILES[candidate].contentType));
+    if (!detected) {
+        throw new ValidationError(`Set format to one of: ${TASK_FORMATS.join(', ')}`);
+    }
+    return detected;
+}
+
+/**
+ * Relays a streamed chat reply to the client as Server-Sent Events, one event per
+ * `ChatStreamEvent` with the event type as the SSE event name. Stops reading from the agent
+ * when the client disconnects.
+ *
+ * @param onReply - Called with the complete reply, before it is sent.
+ */
+async function sendChatStream(
+    res: Response,
+    events: AsyncGenerator<ChatStreamEvent>,
+    onReply: (message: ChatMessage) => Promise<void>
+): Promise<void> {
+    const stream = openEventStream(res);
+    try {
+        for await (const event of events) {
+            if (stream.closed) {
+                break;
+            }
+            if (event.type === 'message') {
+                await onReply(event.message);
+            }
+            stream.send(event.type, event);
+        }
+    } catch (error) {
+        console.error('Error streaming chat response:', error);
+        stream.send('error', chatErrorEvent(error, 'Failed to process message'));
+    } finally {
+        // Ends the agent's generator early if the loop stopped before it finished
+        await events.return(undefined);
+        stream.close();
+    }
+}
 
 /**
  * This function sets up RESTful routes for managing tasks (CRUD operations) and chat endpoints
- * for LangGraph and Foundry agents. It also provides an endpoint to serve the OpenAPI schema.
+ * for every registered agent. It also provides an endpoint to serve the OpenAPI schema.
  *
  * Routes:
  * - GET    /api/schema         : Returns the OpenAPI schema for the API.
- * - GET    /api/tasks          : Retrieves all tasks.
+ * - GET    /api/tasks          : Lists tasks with filtering, sorting and pagination.
+ * - GET    /api/tasks/events   : Streams task changes as Server-Sent Events, resumable with `Last-Event-ID`.
  * - POST   /api/tasks          : Creates a new task.
+ * - POST   /api/tasks/batch    : Creates, updates and deletes several tasks in one transaction.
+ * - PATCH  /api/tasks          : Applies the same changes to every task matching the filters.
+ * - DELETE /api/tasks          : Deletes every task matching the filters.
+ * - GET    /api/tasks/export   : Downloads the matching tasks as JSON, CSV, Markdown or iCalendar.
+ * - POST   /api/tasks/import   : Creates tasks from a file in one of the export formats.
+ * - POST   /api/tasks/extract  : Proposes tasks for the action items in a text, without creating them.
+ * - GET    /api/tasks/tree     : Lists the matching tasks as trees of subtasks.
+ * - GET    /api/tasks/actionable : Lists the open tasks that are not blocked and have no open subtasks.
  * - GET    /api/tasks/:id      : Retrieves a task by its ID.
  * - PUT    /api/tasks/:id      : Updates a task by its ID.
  * - DELETE /api/tasks/:id      : Deletes a task by its ID.
- * - POST   /api/chat/langgraph : Processes a chat message using the LangGraph agent.
- * - POST   /api/chat/foundry   : Processes a chat message using the Foundry agent.
+ * - GET    /api/tasks/:id/history          : Lists the recorded changes of a task.
+ * - GET    /api/tasks/:id/tree             : Retrieves a task with its subtasks, recursively.
+ * - POST   /api/tasks/:id/subtasks         : Adds subtasks to a task.
+ * - POST   /api/tasks/events/:eventId/undo : Reverts a recorded change.
+ * - GET    /api/lists          : Lists the task lists with their task counts.
+ * - POST   /api/lists          : Creates a task list.
+ * - GET    /api/lists/:id      : Retrieves a task list by its ID.
+ * - PUT    /api/lists/:id      : Renames a task list or changes its description.
+ * - DELETE /api/lists/:id      : Deletes a task list, moving its tasks to the Inbox list or deleting them.
+ * - POST   /api/lists/:id/tasks : Moves tasks into a task list.
+ * - GET    /api/metrics        : Returns agent latency, token and tool call metrics in Prometheus format.
+ * - GET    /api/agents         : Lists the registered agents and their configuration status.
+ * - POST   /api/chat           : Processes a chat message using the supervisor, which hands it to the
+ *                                 task and email agents as needed.
+ * - POST   /api/chat/stream    : Streams the supervisor's reply as Server-Sent Events.
+ * - POST   /api/chat/:agentId  : Processes a chat message using the given agent.
+ * - POST   /api/chat/:agentId/stream : Streams the agent's reply as Server-Sent Events.
+ * - GET    /api/chat/:agentId/sessions                     : Lists stored conversations.
+ * - GET    /api/chat/:agentId/sessions/:sessionId/messages : Retrieves a conversation's messages.
+ * - DELETE /api/chat/:agentId/sessions/:sessionId          : Deletes a conversation.
+ * - POST   /api/chat/:agentId/sessions/:sessionId/actions/:actionId/approve : Runs a pending action.
+ * - POST   /api/chat/:agentId/sessions/:sessionId/actions/:actionId/reject  : Cancels a pending action.
+ * - POST   /api/email/proofread : Proofreads an email into the corrected text and a list of edits.
+ *
+ * Every route but `/api/schema` answers 401 unless the request is authenticated; see
+ * `createAuthenticator`. Tasks, task lists and chat sessions belong to the user who created them,
+ * and the routes, the agents and their tools only work on those of the request's user. Other
+ * users' tasks, lists and sessions are reported as not found. Chat messages without a
+ * `sessionId` go to a default session of the user.
+ *
+ * The session routes respond with 404 for agents that do not store conversation history, and the
+ * action routes for agents that never ask for approval.
+ *
+ * The routes that send messages to an agent, including proofreading and extraction, are rate
+ * limited and count against the agent's daily quotas; see `ChatLimiter`.
+ *
+ * Errors are answered with RFC 7807 problem details (`application/problem+json`); see `src/errors`
+ * for the problem types. Chat routes answer agent failures with 502 or 503, never with a reply
+ * that reads like an answer.
  *
  * @param taskService - Service for handling task-related operations.
- * @param langGraphAgent - Agent for processing chat messages using LangGraph.
- * @param foundryAgent - Agent for processing chat messages using Foundry.
+ * @param agents - Registry of the chat agents to expose.
+ * @param limiter - Rate limits and quotas of the chat routes.
+ * @param emailAgent - Agent that proofreads emails for `/api/email/proofread`.
+ * @param extractor - Proposes tasks from text for `/api/tasks/extract`.
+ * @param authenticator - Authenticates the requests of every route but `/api/schema`.
+ * @param sessionOwners - Records which user each chat session belongs to.
  * @returns An Express Router instance with all API routes configured.
  */
 export function createApiRoutes(
     taskService: TaskService, 
-    langGraphAgent: LangGraphTaskAgent, 
-    foundryAgent: FoundryTaskAgent,
-    emailTypoAgent: EmailTypoAgent
+    agents: AgentRegistry,
+    limiter: ChatLimiter,
+    emailAgent: EmailTypoAgent,
+    extractor: ActionItemExtractor,
+    authenticator: Authenticator,
+    sessionOwners: ChatSessionOwners
 ): Router {
     const router = Router();
 
-    /**
-     * @swagger
-     * /api/schema:
-     *   get:
-     *     summary: Get OpenAPI schema
-     *     operationId: getSchema
-     *     responses:
-     *       200:
-     *         description: OpenAPI schema
-     */
     router.get('/schema', (req: Request, res: Response) => {
         try {
-            const schema = swaggerJsdoc({
-                definition: {
-                    openapi: '3.0.0',
-                    info: {
-                        title: 'Task Manager API',
-                        version: '1.0.0',
-                        description: 'A simple task management API for Azure AI Foundry Agents'
-                    },
-                    servers: [
-                        {
-                            url: `${req.protocol}://${req.get('host')}`,
-                            description: 'Task API',
-                        }
-                    ]
-                },
-                apis: ['./src/routes/*.ts'],
-            });
-            res.json(schema);
-        } catch (error: any) {
-            res.status(500).json({ error: error.message });
+            res.json(createOpenApiDocument(`${req.protocol}://${req.get('host')}`));
+        } catch (error) {
+            sendProblem(req, res, error, 'Failed to generate OpenAPI schema');
         }
     });
 
+    // Every route below needs an authenticated user
+    router.use(requireUser(authenticator));
+
     /**
-     * @swagger
-     * /api/tasks:
-     *   get:
-     *     summary: Get all tasks
-     *     operationId: getAllTasks
-     *     responses:
-     *       200:
-     *         description: List of tasks
+     * Returns the service working on the tasks of the request's user.
      */
+    const tasksOf = (res: Response): TaskService => taskService.forOwner(currentUser(res).id);
+
     router.get('/tasks', async (req: Request, res: Response) => {
         try {
-            const tasks = await taskService.getAllTasks();
-            res.json(tasks);
+            const query = parseRequest(taskQueryParamsSchema, req.query);
+            const page = await tasksOf(res).queryTasks(query);
+            res.json(page);
         } catch (error) {
-            console.error('Error getting tasks:', error);
-            res.status(500).json({ error: 'Failed to get tasks' });
+            sendProblem(req, res, error, 'Failed to get tasks');
         }
     });
 
-    /**
-     * @swagger
-     * /api/tasks:
-     *   post:
-     *     summary: Create a new task
-     *     operationId: createTask
-     *     requestBody:
-     *       required: true
-     *       content:
-     *         application/json:
-     *           schema:
-     *             type: object
-     *             properties:
-     *               title:
-     *                 type: string
-     *               isComplete:
-     *                 type: boolean
-     *     responses:
-     *       201:
-     *         description: Task created
-     */
     router.post('/tasks', async (req: Request, res: Response) => {
         try {
-            const { title, isComplete } = req.body;
-            if (!title) {
-                res.status(400).json({ error: 'Title is required' });
-                return;
-            }
-            const task = await taskService.addTask(title, isComplete || false);
+            const input = parseRequest(createTaskInputSchema, req.body);
+            const task = await tasksOf(res).addTask(input, USER_ACTOR);
             res.status(201).json(task);
         } catch (error) {
-            console.error('Error creating task:', error);
-            res.status(500).json({ error: 'Failed to create task' });
+            sendProblem(req, res, error, 'Failed to create task');
         }
     });
 
-    /**
-     * @swagger
-     * /api/tasks/{id}:
-     *   get:
-     *     summary: Get task by ID
-     *     operationId: getTaskById
-     *     parameters:
-     *       - in: path
-     *         name: id
-     *         required: true
-     *         schema:
-     *           type: integer
-     *     responses:
-     *       200:
-     *         description: Task details
-     */
-    router.get('/tasks/:id', async (req: Request, res: Response) => {
+    router.post('/tasks/batch', async (req: Request, res: Response) => {
         try {
-            const { id } = req.params;
-            const taskId = parseInt(id, 10);
-            if (isNaN(taskId)) {
-                res.status(400).json({ error: 'Invalid task ID' });
-                return;
+            const batch = parseRequest(taskBatchSchema, req.body);
+            const outcome = await tasksOf(res).applyBatch(batch.operations, USER_ACTOR);
+            if (outcome.status === 'failed') {
+                throw new NotFoundError(`operations[${outcome.index}]: ${outcome.reason}`, { index: outcome.index });
             }
-            const task = await taskService.getTaskById(taskId);
+            res.json({ results: outcome.results });
+        } catch (error) {
+            sendProblem(req, res, error, 'Failed to apply task batch');
+        }
+    });
+
+    router.patch('/tasks', async (req: Request, res: Response) => {
+        try {
+            const filter = parseTaskFilter(req.query);
+            const input = parseRequest(updateTaskInputSchema, req.body);
+            const tasks = await tasksOf(res).updateMatching(filter, input, USER_ACTOR);
+            res.json({ tasks });
+        } catch (error) {
+            sendProblem(req, res, error, 'Failed to update tasks');
+        }
+    });
+
+    router.delete('/tasks', async (req: Request, res: Response) => {
+        try {
+            const filter = parseTaskFilter(req.query);
+            const tasks = await tasksOf(res).deleteMatching(filter, USER_ACTOR);
+            res.json({ deletedIds: tasks.map((task) => task.id) });
+        } catch (error) {
+            sendProblem(req, res, error, 'Failed to delete tasks');
+        }
+    });
+
+    // Registered before /tasks/:id, which would otherwise match "export" as an ID
+    router.get('/tasks/export', async (req: Request, res: Response) => {
+        try {
+            const { format, ...filter } = parseRequest(taskExportParamsSchema, req.query);
+            const tasks = await tasksOf(res).getAllTasks(filter);
+            const { contentType, extension } = TASK_FORMAT_FILES[format];
+            res.type(contentType);
+            res.attachment(`tasks.${extension}`);
+            res.send(formatTasks(tasks, format));
+        } catch (error) {
+            sendProblem(req, res, error, 'Failed to export tasks');
+        }
+    });
+
+    router.post('/tasks/import', express.text({ type: 'text/*', limit: '1mb' }), async (req: Request, res: Response) => {
+        try {
+            const params = parseRequest(taskImportParamsSchema, req.query);
+            const format = resolveImportFormat(req, params.format);
+
+            const file = parseTasks(req.body, format);
+            const errors = [...file.errors];
+            const inputs: CreateTaskInput[] = [];
+            for (const { record, fields } of file.records) {
+                const { value: input, error } = validate(createTaskInputSchema, fields);
+                if (error) {
+                    errors.push({ record, error });
+                } else {
+                    inputs.push(input);
+                }
+            }
+            if (errors.length > 0) {
+                errors.sort((a, b) => a.record - b.record);
+                throw new ValidationError('The file holds tasks that could not be imported', { errors });
+            }
+
+            const result = await tasksOf(res).importTasks(
+                inputs,
+                { duplicates: params.duplicates, dryRun: params.dryRun },
+                USER_ACTOR
+            );
+            res.json(result);
+        } catch (error) {
+            sendProblem(req, res, error, 'Failed to import tasks');
+        }
+    });
+
+    // Proposals only: the client creates the tasks the user confirms, e.g. through /tasks/batch
+    router.post('/tasks/extract', async (req: Request, res: Response) => {
+        try {
+            const { text } = parseRequest(extractTasksRequestSchema, req.body);
+            await limiter.admit(req, res, extractor.id);
+            const extraction = await extractor.extract(text);
+            await limiter.recordUsage(extractor.id, extraction.trace.usage);
+            res.json(extraction);
+        } catch (error) {
+            sendProblem(req, res, error, 'Failed to extract action items');
+        }
+    });
+
+    // Registered before /tasks/:id, which would otherwise match "events" as an ID
+    router.get('/tasks/events', async (req: Request, res: Response) => {
+        const resumeFrom = req.get('Last-Event-ID') ?? req.query.lastEventId;
+        const lastEventId = typeof resumeFrom === 'string' && /^\d+$/.test(resumeFrom) ? Number(resumeFrom) : null;
+        const tasks = tasksOf(res);
+        const stream = openEventStream(res);
+
+        // Changes committed while the backlog is read are held back and sent after it, in order
+        let sentId = 0;
+        let heldBack: TaskChangeEvent[] | null = [];
+        const send = (event: TaskChangeEvent) => {
+            if (event.id > sentId) {
+                stream.send(event.type, event, event.id);
+                sentId = event.id;
+            }
+        };
+        const unsubscribe = tasks.onChange((event) => heldBack ? heldBack.push(event) : send(event));
+        res.on('close', unsubscribe);
+
+        try {
+            const backlog = lastEventId !== null ? await tasks.getChangesSince(lastEventId) : null;
+            if (backlog) {
+                sentId = lastEventId;
+                backlog.forEach(send);
+            } else {
+                // New clients, and clients too far behind, start from the current task list
+                sentId = await tasks.getLatestChangeId();
+                stream.send(lastEventId !== null ? 'reset' : 'ready', { lastEventId: sentId }, sentId);
+            }
+            heldBack.forEach(send);
+            heldBack = null;
+        } catch (error) {
+            console.error('Error streaming task events:', error);
+            stream.send('error', toProblemDetails(error, 'Failed to read task events'));
+            stream.close();
+        }
+    });
+
+    router.get('/tasks/tree', async (req: Request, res: Response) => {
+        try {
+            const filter = parseRequest(taskFilterParamsSchema, req.query);
+            res.json(await tasksOf(res).getTaskTrees(filter));
+        } catch (error) {
+            sendProblem(req, res, error, 'Failed to get task trees');
+        }
+    });
+
+    router.get('/tasks/actionable', async (req: Request, res: Response) => {
+        try {
+            const query = parseRequest(actionableTasksParamsSchema, req.query);
+            res.json(await tasksOf(res).getActionableTasks(query));
+        } catch (error) {
+            sendProblem(req, res, error, 'Failed to get actionable tasks');
+        }
+    });
+
+    router.get('/tasks/:id', async (req: Request, res: Response) => {
+        try {
+            const task = await tasksOf(res).getTaskById(parseId(req.params.id, 'task'));
             if (!task) {
-                res.status(404).json({ error: 'Task not found' });
-                return;
+                throw new NotFoundError('Task not found');
             }
             res.json(task);
         } catch (error) {
-            console.error('Error getting task:', error);
-            res.status(500).json({ error: 'Failed to get task' });
+            sendProblem(req, res, error, 'Failed to get task');
         }
     });
 
-    /**
-     * @swagger
-     * /api/tasks/{id}:
-     *   put:
-     *     summary: Update a task
-     *     operationId: updateTask
-     *     parameters:
-     *       - in: path
-     *         name: id
-     *         required: true
-     *         schema:
-     *           type: integer
-     *     requestBody:
-     *       required: true
-     *       content:
-     *         application/json:
-     *           schema:
-     *             type: object
-     *             properties:
-     *               title:
-     *                 type: string
-     *               isComplete:
-     *                 type: boolean
-     *     responses:
-     *       200:
-     *         description: Task updated
-     */
     router.put('/tasks/:id', async (req: Request, res: Response) => {
         try {
-            const { id } = req.params;
-            const { title, isComplete } = req.body;
-            const taskId = parseInt(id, 10);
-            if (isNaN(taskId)) {
-                res.status(400).json({ error: 'Invalid task ID' });
-                return;
-            }
-            const updated = await taskService.updateTask(taskId, title, isComplete);
+            const taskId = parseId(req.params.id, 'task');
+            const input = parseRequest(updateTaskInputSchema, req.body);
+            const updated = await tasksOf(res).updateTask(taskId, input, USER_ACTOR);
             if (!updated) {
-                res.status(404).json({ error: 'Task not found' });
-                return;
+                throw new NotFoundError('Task not found');
             }
-            const task = await taskService.getTaskById(taskId);
+            const task = await tasksOf(res).getTaskById(taskId);
             res.json(task);
         } catch (error) {
-            console.error('Error updating task:', error);
-            res.status(500).json({ error: 'Failed to update task' });
+            sendProblem(req, res, error, 'Failed to update task');
         }
     });
 
-    /**
-     * @swagger
-     * /api/tasks/{id}:
-     *   delete:
-     *     summary: Delete a task
-     *     operationId: deleteTask
-     *     parameters:
-     *       - in: path
-     *         name: id
-     *         required: true
-     *         schema:
-     *           type: integer
-     *     responses:
-     *       200:
-     *         description: Task deleted
-     */
     router.delete('/tasks/:id', async (req: Request, res: Response) => {
         try {
-            const { id } = req.params;
-            const taskId = parseInt(id, 10);
-            if (isNaN(taskId)) {
-                res.status(400).json({ error: 'Invalid task ID' });
-                return;
-            }
-            const deleted = await taskService.deleteTask(taskId);
+            const deleted = await tasksOf(res).deleteTask(parseId(req.params.id, 'task'), USER_ACTOR);
             if (!deleted) {
-                res.status(404).json({ error: 'Task not found' });
-                return;
+                throw new NotFoundError('Task not found');
             }
             res.json({ message: 'Task deleted successfully' });
         } catch (error) {
-            console.error('Error deleting task:', error);
-            res.status(500).json({ error: 'Failed to delete task' });
+            sendProblem(req, res, error, 'Failed to delete task');
         }
     });
 
-    // Chat agent routes
+    router.get('/tasks/:id/history', async (req: Request, res: Response) => {
+        try {
+            const taskId = parseId(req.params.id, 'task');
+            const history = await tasksOf(res).getTaskHistory(taskId);
+            if (history.length === 0 && !await tasksOf(res).getTaskById(taskId)) {
+                throw new NotFoundError('Task not found');
+            }
+            res.json(history);
+        } catch (error) {
+            sendProblem(req, res, error, 'Failed to get task history');
+        }
+    });
 
-    router.post('/chat/langgraph', async (req: Request, res: Response) => {
+    router.get('/tasks/:id/tree', async (req: Request, res: Response) => {
         try {
-            const { message, sessionId }: ChatRequest = req.body;
-            
-            if (!message) {
-                res.status(400).json({ error: 'Message is required' });
-                return;
+            const tree = await tasksOf(res).getTaskTree(parseId(req.params.id, 'task'));
+            if (!tree) {
+                throw new NotFoundError('Task not found');
             }
+            res.json(tree);
+        } catch (error) {
+            sendProblem(req, res, error, 'Failed to get task tree');
+        }
+    });
 
-            const response = await langGraphAgent.processMessage(message, sessionId);
-            res.json(response);
+    router.post('/tasks/:id/subtasks', async (req: Request, res: Response) => {
+        try {
+            const taskId = parseId(req.params.id, 'task');
+            const input = parseRequest(addSubtasksInputSchema, req.body);
+            const subtasks = await tasksOf(res).addSubtasks(taskId, input, USER_ACTOR);
+            if (!subtasks) {
+                throw new NotFoundError('Task not found');
+            }
+            res.status(201).json({ tasks: subtasks });
+        } catch (error) {
+            sendProblem(req, res, error, 'Failed to add subtasks');
+        }
+    });
+
+    router.post('/tasks/events/:eventId/undo', async (req: Request, res: Response) => {
+        try {
+            const outcome = await tasksOf(res).undoChange(parseId(req.params.eventId, 'event'), USER_ACTOR);
+            if (outcome.status === 'not_found') {
+                throw new NotFoundError('Change not found');
+            }
+            if (outcome.status === 'conflict') {
+                throw new ConflictError(outcome.reason);
+            }
+            res.json(outcome.event);
+        } catch (error) {
+            sendProblem(req, res, error, 'Failed to undo task change');
+        }
+    });
+
+    // Task lists
+
+    router.get('/lists', async (req: Request, res: Response) => {
+        try {
+            res.json(await tasksOf(res).getLists());
+        } catch (error) {
+            sendProblem(req, res, error, 'Failed to list task lists');
+        }
+    });
+
+    router.post('/lists', async (req: Request, res: Response) => {
+        try {
+            const input = parseRequest(createTaskListInputSchema, req.body);
+            res.status(201).json(await tasksOf(res).createList(input));
+        } catch (error) {
+            sendProblem(req, res, error, 'Failed to create task list');
+        }
+    });
+
+    router.get('/lists/:id', async (req: Request, res: Response) => {
+        try {
+            const list = await tasksOf(res).getListById(parseId(req.params.id, 'list'));
+            if (!list) {
+                throw new NotFoundError('Task list not found');
+            }
+            res.json(list);
+        } catch (error) {
+            sendProblem(req, res, error, 'Failed to get task list');
+        }
+    });
+
+    router.put('/lists/:id', async (req: Request, res: Response) => {
+        try {
+            const listId = parseId(req.params.id, 'list');
+            const changes = parseRequest(updateTaskListInputSchema, req.body);
+            const list = await tasksOf(res).updateList(listId, changes);
+            if (!list) {
+                throw new NotFoundError('Task list not found');
+            }
+            res.json(list);
         } catch (error) {
-            console.error('Error in LangGraph chat:', error);
-            res.status(500).json({ error: 'Failed to process message' });
+            sendProblem(req, res, error, 'Failed to update task list');
         }
     });
 
-    router.post('/chat/foundry', async (req: Request, res: Response) => {
+    router.delete('/lists/:id', async (req: Request, res: Response) => {
         try {
-            const { message, sessionId }: ChatRequest = req.body;
-            
-            if (!message) {
-                res.status(400).json({ error: 'Message is required' });
-                return;
+            const listId = parseId(req.params.id, 'list');
+            const { tasks: policy } = parseRequest(taskListDeleteParamsSchema, req.query);
+            const tasks = await tasksOf(res).deleteList(listId, policy, USER_ACTOR);
+            if (!tasks) {
+                throw new NotFoundError('Task list not found');
             }
+            const taskIds = tasks.map((task) => task.id);
+            res.json(policy === 'delete' ? { deletedTaskIds: taskIds } : { movedTaskIds: taskIds });
+        } catch (error) {
+            sendProblem(req, res, error, 'Failed to delete task list');
+        }
+    });
+
+    router.post('/lists/:id/tasks', async (req: Request, res: Response) => {
+        try {
+            const listId = parseId(req.params.id, 'list');
+            const { ids } = parseRequest(moveTasksInputSchema, req.body);
+            const tasks = await tasksOf(res).moveTasks(ids, listId, USER_ACTOR);
+            if (!tasks) {
+                throw new NotFoundError('Task list not found');
+            }
+            res.json({ tasks });
+        } catch (error) {
+            sendProblem(req, res, error, 'Failed to move tasks');
+        }
+    });
+
+    // Chat agent routes
+
+    /**
+     * Resolves the agent named in the route.
+     *
+     * @throws NotFoundError when no agent has that ID.
+     */
+    const findAgent = (req: Request): ChatAgent => {
+        const agentId = req.params.agentId ?? UNIFIED_CHAT_AGENT;
+        const agent = agents.get(agentId);
+        if (!agent) {
+            throw new NotFoundError(`Unknown agent: ${agentId}`);
+        }
+        return agent;
+    };
+
+    /**
+     * Reads the chat request body and claims its session for the request's user. Messages
+     * without a session go to the user's default session.
+     *
+     * @throws ValidationError when the message is missing or the session ID is malformed.
+     * @throws NotFoundError when the session belongs to another user.
+     */
+    const parseChatRequest = async (req: Request, res: Response): Promise<ChatRequest> => {
+        const { message, sessionId }: ChatRequest = req.body ?? {};
+        if (!message) {
+            throw new ValidationError('Message is required');
+        }
+        if (sessionId !== undefined && (typeof sessionId !== 'string' || !SESSION_ID_PATTERN.test(sessionId))) {
+            throw new ValidationError('Session ID must be 1 to 100 letters, digits, hyphens or underscores');
+        }
+        const userId = currentUser(res).id;
+        const session = sessionId ?? sessionOwners.defaultSessionId(userId);
+        if (!await sessionOwners.claim(session, userId)) {
+            throw new NotFoundError('Session not found');
+        }
+        return { message, sessionId: session };
+    };
+
+    /**
+     * Checks that the session named in the route belongs to the request's user.
+     *
+     * @throws NotFoundError when it does not, as if the session did not exist.
+     */
+    const checkSessionOwner = async (req: Request, res: Response): Promise<void> => {
+        if (!await sessionOwners.isOwner(req.params.sessionId, currentUser(res).id)) {
+            throw new NotFoundError('Session not found');
+        }
+    };
+
+    router.get('/metrics', async (req: Request, res: Response) => {
+        try {
+            const metrics = await metricsRegistry.metrics();
+            res.type(metricsRegistry.contentType);
+            res.send(metrics);
+        } catch (error) {
+            sendProblem(req, res, error, 'Failed to collect metrics');
+        }
+    });
 
-            const response = await foundryAgent.processMessage(message);
+    router.get('/agents', async (req: Request, res: Response) => {
+        try {
+            const infos = await Promise.all(agents.list().map((agent) => describeAgent(agent)));
+            res.json(infos);
+        } catch (error) {
+            sendProblem(req, res, error, 'Failed to list agents');
+        }
+    });
+
+    // `/chat` and `/chat/stream` go to the supervisor. Streaming comes first so `stream` is not
+    // taken for an agent ID
+    router.post(['/chat/stream', '/chat/:agentId/stream'], async (req: Request, res: Response) => {
+        let agent: ChatAgent;
+        let chatRequest: ChatRequest;
+        try {
+            agent = findAgent(req);
+            chatRequest = await parseChatRequest(req, res);
+            await limiter.admit(req, res, agent.id, chatRequest.sessionId);
+        } catch (error) {
+            sendProblem(req, res, error, 'Failed to process message');
+            return;
+        }
+
+        await sendChatStream(
+            res,
+            agent.streamMessage(chatRequest.message, chatRequest.sessionId, currentUser(res).id),
+            (reply) => limiter.recordUsage(agent.id, ownUsage(reply.trace))
+        );
+    });
+
+    router.post(['/chat', '/chat/:agentId'], async (req: Request, res: Response) => {
+        try {
+            const agent = findAgent(req);
+            const { message, sessionId } = await parseChatRequest(req, res);
+            await limiter.admit(req, res, agent.id, sessionId);
+            const response = await agent.processMessage(message, sessionId, currentUser(res).id);
+            await limiter.recordUsage(agent.id, ownUsage(response.trace));
             res.json(response);
         } catch (error) {
-            console.error('Error in Foundry chat:', error);
-            res.status(500).json({ error: 'Failed to process message' });
+            sendProblem(req, res, error, 'Failed to process message');
+        }
+    });
+
+    // Conversation history, used by the UI to restore a chat after a page refresh
+
+    /**
+     * Resolves an agent that stores conversation history.
+     *
+     * @throws NotFoundError when the agent is unknown or does not store history.
+     */
+    const findHistoryAgent = (req: Request): ChatAgent => {
+        const agent = findAgent(req);
+        if (!agent.getSessionHistory) {
+            throw new NotFoundError(`Agent ${agent.id} does not store conversation history`);
+        }
+        return agent;
+    };
+
+    router.get('/chat/:agentId/sessions', async (req: Request, res: Response) => {
+        try {
+            const [sessions, owned] = await Promise.all([
+                findHistoryAgent(req).listSessions(),
+                sessionOwners.listOwned(currentUser(res).id)
+            ]);
+            res.json(sessions.filter((session) => owned.has(session.sessionId)));
+        } catch (error) {
+            sendProblem(req, res, error, 'Failed to list chat sessions');
         }
     });
 
-    router.post('/chat/emailtypo', async (req: Request, res: Response) => {
+    router.get('/chat/:agentId/sessions/:sessionId/messages', async (req: Request, res: Response) => {
         try {
-            const { message, sessionId }: ChatRequest = req.body;
-            
-            if (!message) {
-                res.status(400).json({ error: 'Message is required' });
-                return;
+            const agent = findHistoryAgent(req);
+            await checkSessionOwner(req, res);
+            const messages = await agent.getSessionHistory(req.params.sessionId, currentUser(res).id);
+            if (!messages) {
+                throw new NotFoundError('Session not found');
             }
+            res.json(messages);
+        } catch (error) {
+            sendProblem(req, res, error, 'Failed to get chat session messages');
+        }
+    });
 
-            const response = await emailTypoAgent.processMessage(message);
+    router.delete('/chat/:agentId/sessions/:sessionId', async (req: Request, res: Response) => {
+        try {
+            const agent = findHistoryAgent(req);
+            await checkSessionOwner(req, res);
+            const deleted = await agent.deleteSession(req.params.sessionId);
+            if (!deleted) {
+                throw new NotFoundError('Session not found');
+            }
+            res.json({ message: 'Session deleted successfully' });
+        } catch (error) {
+            sendProblem(req, res, error, 'Failed to delete chat session');
+        }
+    });
+
+    // Pending actions, for agents that ask before running destructive tools
+
+    const resolvePendingAction = async (req: Request, res: Response, approved: boolean) => {
+        try {
+            const agent = findAgent(req);
+            if (!agent.resolvePendingAction) {
+                throw new NotFoundError(`Agent ${agent.id} does not ask for approval`);
+            }
+            const { sessionId, actionId } = req.params;
+            await checkSessionOwner(req, res);
+            // The agent calls the model again after either answer
+            await limiter.admit(req, res, agent.id, sessionId);
+            const response = await agent.resolvePendingAction(sessionId, actionId, approved, currentUser(res).id);
+            if (!response) {
+                throw new NotFoundError('Pending action not found');
+            }
+            await limiter.recordUsage(agent.id, ownUsage(response.trace));
             res.json(response);
         } catch (error) {
-            console.error('Error in EmailTypo chat:', error);
-            res.status(500).json({ error: 'Failed to process message' });
+            sendProblem(req, res, error, `Failed to ${approved ? 'approve' : 'reject'} pending action`);
+        }
+    };
+
+    router.post('/chat/:agentId/sessions/:sessionId/actions/:actionId/approve', (req: Request, res: Response) =>
+        resolvePendingAction(req, res, true));
+
+    router.post('/chat/:agentId/sessions/:sessionId/actions/:actionId/reject', (req: Request, res: Response) =>
+        resolvePendingAction(req, res, false));
+
+    // Proofreading, answered with structured edits rather than a chat reply
+
+    router.post('/email/proofread', async (req: Request, res: Response) => {
+        try {
+            const request = parseRequest(proofreadRequestSchema, req.body);
+            await limiter.admit(req, res, emailAgent.id);
+            const result = await emailAgent.proofread(request);
+            await limiter.recordUsage(emailAgent.id, result.trace.usage);
+            res.json(result);
+        } catch (error) {
+            sendProblem(req, res, error, 'Failed to proofread email');
         }
     });
 
+    // Everything else under /api, rather than falling through to the web UI
+    router.use(notFoundHandler);
+
     return router;
 }
@@ -0,0 +1,32 @@
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import { Authenticator } from '../auth/Authenticator';
+import { UnauthorizedError } from '../errors';
+import { AuthenticatedUser } from '../types';
+import { sendProblem } from './problems';
+
+/**
+ * Middleware that authenticates every request it handles and stores the user in
+ * `res.locals.user`, for `currentUser`. Requests that fail authentication are answered with a
+ * 401 problem and a `WWW-Authenticate` header naming the accepted schemes.
+ */
+export function requireUser(authenticator: Authenticator): RequestHandler {
+    return async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            res.locals.user = await authenticator.authenticate(req);
+        } catch (error) {
+            if (error instanceof UnauthorizedError) {
+                res.set('WWW-Authenticate', authenticator.challenge);
+            }
+            sendProblem(req, res, error, 'Failed to authenticate request');
+            return;
+        }
+        next();
+    };
+}
+
+/**
+ * Returns the user `requireUser` authenticated the request as.
+ */
+export function currentUser(res: Response): AuthenticatedUser {
+    return res.locals.user;
+}
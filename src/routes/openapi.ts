@@ -0,0 +1,466 @@
+import { z } from 'zod';
+import { ignoreOverride, zodToJsonSchema } from 'zod-to-json-schema';
+import {
+    actionableTasksParamsSchema,
+    addSubtasksInputSchema,
+    createTaskInputSchema,
+    createTaskListInputSchema,
+    moveTasksInputSchema,
+    taskActorSchema,
+    taskBatchOperationSchema,
+    taskBatchResultSchema,
+    taskBatchSchema,
+    taskChangeEventSchema,
+    taskExportParamsSchema,
+    taskFilterParamsSchema,
+    taskImportParamsSchema,
+    taskImportResultSchema,
+    taskListDeleteParamsSchema,
+    taskListSchema,
+    taskPageSchema,
+    taskPrioritySchema,
+    taskQueryParamsSchema,
+    taskSchema,
+    taskTreeNodeSchema,
+    updateTaskInputSchema,
+    updateTaskListInputSchema
+} from '../schemas/tasks';
+import { extractTasksRequestSchema, proposedTaskSchema } from '../schemas/actionItems';
+import { PROBLEM_CONTENT_TYPE } from './problems';
+
+// OpenAPI document of the task routes, generated from the zod schemas the routes validate with
+
+/**
+ * RFC 7807 problem details, the body of every error response.
+ */
+const problemDetailsSchema = z.object({
+    type: z.string()
+        .describe('Problem type, e.g. /problems/validation or /problems/agent-not-configured; about:blank for unexpected failures.'),
+    title: z.string(),
+    status: z.number().int(),
+    detail: z.string().optional(),
+    instance: z.string().optional(),
+    retryable: z.boolean()
+        .describe('True when the same request may succeed later.')
+}).passthrough();
+
+/**
+ * Schemas published under `#/components/schemas` and referenced wherever they occur.
+ */
+const COMPONENTS: Record<string, z.ZodTypeAny> = {
+    Task: taskSchema,
+    TaskPriority: taskPrioritySchema,
+    CreateTaskInput: createTaskInputSchema,
+    UpdateTaskInput: updateTaskInputSchema,
+    TaskPage: taskPageSchema,
+    TaskTreeNode: taskTreeNodeSchema,
+    TaskBatchOperation: taskBatchOperationSchema,
+    TaskBatchResult: taskBatchResultSchema,
+    TaskActor: taskActorSchema,
+    TaskChangeEvent: taskChangeEventSchema,
+    TaskImportResult: taskImportResultSchema,
+    ProposedTask: proposedTaskSchema,
+    TaskList: taskListSchema,
+    CreateTaskListInput: createTaskListInputSchema,
+    UpdateTaskListInput: updateTaskListInputSchema,
+    ProblemDetails: problemDetailsSchema
+};
+
+const COMPONENT_NAMES = new Map(Object.entries(COMPONENTS).map(([name, schema]) => [schema._def, name]));
+
+const CONVERSION_OPTIONS = {
+    target: 'openApi3' as const,
+    basePath: ['#', 'components'],
+    definitionPath: 'schemas',
+    definitions: COMPONENTS,
+    // Other schemas used in several places are repeated rather than referenced by JSON pointer
+    $refStrategy: 'none' as const,
+    override: (def: z.ZodTypeDef, _refs: unknown, _seen: unknown, forceResolution?: boolean) => {
+        const name = COMPONENT_NAMES.get(def);
+        // Components are resolved when they are defined, and referenced everywhere else
+        return name && !forceResolution ? { $ref: `#/components/schemas/${name}` } : ignoreOverride;
+    }
+};
+
+
+interface ResponseSpec {
+    description: string;
+    schema?: z.ZodTypeAny;
+    /** Content types of a response that is not JSON. */
+    contentTypes?: string[];
+}
+
+interface OperationSpec {
+    method: 'get' | 'post' | 'put' | 'patch' | 'delete';
+    /** Path in OpenAPI notation, e.g. `/api/tasks/{id}`. Path parameters are integer IDs. */
+    path: string;
+    operationId: string;
+    summary: string;
+    description?: string;
+    query?: z.AnyZodObject;
+    body?: z.ZodTypeAny;
+    /** Content types of a request body that is not JSON. */
+    bodyContentTypes?: string[];
+    responses: Record<number, ResponseSpec>;
+    /** True for operations that need no authentication. */
+    public?: boolean;
+}
+
+const OPERATIONS: OperationSpec[] = [
+    {
+        method: 'get',
+        path: '/api/schema',
+        operationId: 'getSchema',
+        summary: 'Get OpenAPI schema',
+        responses: { 200: { description: 'OpenAPI schema' } },
+        public: true
+    },
+    {
+        method: 'get',
+        path: '/api/tasks',
+        operationId: 'getAllTasks',
+        summary: 'List tasks with optional filters, sorting and pagination',
+        query: taskQueryParamsSchema,
+        responses: { 200: { description: 'One page of matching tasks and the total number of matches', schema: taskPageSchema } }
+    },
+    {
+        method: 'post',
+        path: '/api/tasks',
+        operationId: 'createTask',
+        summary: 'Create a new task',
+        body: createTaskInputSchema,
+        responses: { 201: { description: 'Task created', schema: taskSchema } }
+    },
+    {
+        method: 'patch',
+        path: '/api/tasks',
+        operationId: 'updateMatchingTasks',
+        summary: 'Apply the same changes to every task matching the filters, e.g. complete all matching tasks',
+        description: 'At least one filter is required.',
+        query: taskFilterParamsSchema,
+        body: updateTaskInputSchema,
+        responses: { 200: { description: 'The updated tasks', schema: z.object({ tasks: z.array(taskSchema) }) } }
+    },
+    {
+        method: 'delete',
+        path: '/api/tasks',
+        operationId: 'deleteMatchingTasks',
+        summary: 'Delete every task matching the filters, e.g. isComplete=true to clear completed tasks',
+        description: 'At least one filter is required.',
+        query: taskFilterParamsSchema,
+        responses: { 200: { description: 'IDs of the deleted tasks', schema: z.object({ deletedIds: z.array(z.number().int()) }) } }
+    },
+    {
+        method: 'post',
+        path: '/api/tasks/batch',
+        operationId: 'applyTaskBatch',
+        summary: 'Create, update and delete several tasks at once; either all operations apply or none do',
+        body: taskBatchSchema,
+        responses: {
+            200: { description: 'One result per operation, in order', schema: z.object({ results: z.array(taskBatchResultSchema) }) },
+            404: { description: 'An operation refers to a missing task; nothing was changed. index names the operation.' }
+        }
+    },
+    {
+        method: 'get',
+        path: '/api/tasks/export',
+        operationId: 'exportTasks',
+        summary: 'Download tasks as JSON, CSV, a Markdown checklist or iCalendar VTODOs',
+        query: taskExportParamsSchema,
+        responses: {
+            200: {
+                description: 'The exported file',
+                contentTypes: ['application/json', 'text/csv', 'text/markdown', 'text/calendar']
+            }
+        }
+    },
+    {
+        method: 'post',
+        path: '/api/tasks/import',
+        operationId: 'importTasks',
+        summary: 'Create tasks from a JSON, CSV, Markdown checklist or iCalendar file',
+        description: 'Every task is validated like a new task; if any is invalid, nothing is imported. '
+            + 'Tasks whose title matches an existing task are handled according to duplicates.',
+        query: taskImportParamsSchema,
+        bodyContentTypes: ['application/json', 'text/csv', 'text/markdown', 'text/calendar'],
+        responses: {
+            200: { description: 'What happened, or would happen, to each task', schema: taskImportResultSchema },
+            400: { description: 'The file could not be read or holds invalid tasks, listed in errors by record number' }
+        }
+    },
+    {
+        method: 'post',
+        path: '/api/tasks/extract',
+        operationId: 'extractTasks',
+        summary: 'Propose tasks for the action items in an email or meeting notes',
+        description: 'Nothing is created; create the proposals the user confirms with createTask or the batch route.',
+        body: extractTasksRequestSchema,
+        responses: {
+            200: {
+                description: 'The proposed tasks, in the order they appear in the text',
+                schema: z.object({ tasks: z.array(proposedTaskSchema) })
+            },
+            429: { description: 'Rate limit or daily quota exceeded' },
+            503: { description: 'No language model is configured' }
+        }
+    },
+    {
+        method: 'get',
+        path: '/api/tasks/tree',
+        operationId: 'getTaskTrees',
+        summary: 'List the tasks matching the filters as trees of subtasks',
+        description: 'Each task whose parent does not match the filters is the root of a tree.',
+        query: taskFilterParamsSchema,
+        responses: { 200: { description: 'The trees, ordered by the ID of their root', schema: z.array(taskTreeNodeSchema) } }
+    },
+    {
+        method: 'get',
+        path: '/api/tasks/actionable',
+        operationId: 'getActionableTasks',
+        summary: 'List the tasks that can be worked on now',
+        description: 'Open tasks that are not blocked by an open task and have no open subtasks, by priority, then due date.',
+        query: actionableTasksParamsSchema,
+        responses: { 200: { description: 'The actionable tasks, the most urgent first', schema: z.array(taskSchema) } }
+    },
+    {
+        method: 'get',
+        path: '/api/tasks/{id}',
+        operationId: 'getTaskById',
+        summary: 'Get task by ID',
+        responses: { 200: { description: 'Task details', schema: taskSchema } }
+    },
+    {
+        method: 'put',
+        path: '/api/tasks/{id}',
+        operationId: 'updateTask',
+        summary: 'Update a task',
+        body: updateTaskInputSchema,
+        responses: { 200: { description: 'Task updated', schema: taskSchema } }
+    },
+    {
+        method: 'delete',
+        path: '/api/tasks/{id}',
+        operationId: 'deleteTask',
+        summary: 'Delete a task',
+        responses: { 200: { description: 'Task deleted', schema: z.object({ message: z.string() }) } }
+    },
+    {
+        method: 'get',
+        path: '/api/tasks/{id}/history',
+        operationId: 'getTaskHistory',
+        summary: 'List the recorded changes of a task, with who made them',
+        responses: { 200: { description: 'Changes, oldest first', schema: z.array(taskChangeEventSchema) } }
+    },
+    {
+        method: 'get',
+        path: '/api/tasks/{id}/tree',
+        operationId: 'getTaskTree',
+        summary: 'Get a task with its subtasks, recursively',
+        responses: { 200: { description: 'The task tree', schema: taskTreeNodeSchema } }
+    },
+    {
+        method: 'post',
+        path: '/api/tasks/{id}/subtasks',
+        operationId: 'addSubtasks',
+        summary: 'Break a task down into subtasks',
+        description: 'Subtasks go to the list of the task unless they name another. With sequential, each is blocked by the one before it.',
+        body: addSubtasksInputSchema,
+        responses: { 201: { description: 'The new subtasks, in order', schema: z.object({ tasks: z.array(taskSchema) }) } }
+    },
+    {
+        method: 'post',
+        path: '/api/tasks/events/{eventId}/undo',
+        operationId: 'undoTaskChange',
+        summary: 'Revert a recorded change to a task',
+        responses: {
+            200: { description: 'The change that reverted it', schema: taskChangeEventSchema },
+            409: { description: 'The task changed again afterwards' }
+        }
+    },
+    {
+        method: 'get',
+        path: '/api/lists',
+        operationId: 'getTaskLists',
+        summary: 'List the task lists, such as projects, with their task counts',
+        responses: { 200: { description: 'The Inbox list first, then the others by name', schema: z.array(taskListSchema) } }
+    },
+    {
+        method: 'post',
+        path: '/api/lists',
+        operationId: 'createTaskList',
+        summary: 'Create a task list',
+        body: createTaskListInputSchema,
+        responses: {
+            201: { description: 'Task list created', schema: taskListSchema },
+            409: { description: 'A list with that name already exists' }
+        }
+    },
+    {
+        method: 'get',
+        path: '/api/lists/{id}',
+        operationId: 'getTaskList',
+        summary: 'Get a task list by ID',
+        responses: { 200: { description: 'Task list details', schema: taskListSchema } }
+    },
+    {
+        method: 'put',
+        path: '/api/lists/{id}',
+        operationId: 'updateTaskList',
+        summary: 'Rename a task list or change its description',
+        body: updateTaskListInputSchema,
+        responses: {
+            200: { description: 'Task list updated', schema: taskListSchema },
+            409: { description: 'Another list has that name' }
+        }
+    },
+    {
+        method: 'delete',
+        path: '/api/lists/{id}',
+        operationId: 'deleteTaskList',
+        summary: 'Delete a task list, moving its tasks to the Inbox list or deleting them',
+        query: taskListDeleteParamsSchema,
+        responses: {
+            200: {
+                description: 'The IDs of the moved or deleted tasks',
+                schema: z.object({ movedTaskIds: z.array(z.number().int()) }).or(z.object({ deletedTaskIds: z.array(z.number().int()) }))
+            },
+            409: { description: 'The Inbox list cannot be deleted' }
+        }
+    },
+    {
+        method: 'post',
+        path: '/api/lists/{id}/tasks',
+        operationId: 'moveTasksToList',
+        summary: 'Move tasks into a task list',
+        description: 'Tasks already in the list and unknown task IDs are skipped.',
+        body: moveTasksInputSchema,
+        responses: { 200: { description: 'The moved tasks', schema: z.object({ tasks: z.array(taskSchema) }) } }
+    }
+];
+
+/**
+ * Converts a zod schema into an OpenAPI schema object, referring to the shared components by name.
+ */
+function toOpenApiSchema(schema: z.ZodTypeAny): Record<string, unknown> {
+    // The converter repeats the referenced definitions next to every schema; they are published once instead
+    const { schemas, ...converted } = zodToJsonSchema(schema, CONVERSION_OPTIONS) as Record<string, unknown>;
+    return converted;
+}
+
+function toParameters(operation: OperationSpec): Record<string, unknown>[] {
+    const pathParameters = Array.from(operation.path.matchAll(/\{(\w+)\}/g))
+        .map(([, name]) => ({ in: 'path', name, required: true, schema: { type: 'integer' } }));
+
+    const queryParameters = Object.entries(operation.query?.shape ?? {}).map(([name, field]: [string, z.ZodTypeAny]) => {
+        // Query fields are wrapped for string conversion and may be optional or have a default
+        let inner = field instanceof z.ZodEffects ? field.innerType() : field;
+        const wrapperDescription = inner.description;
+        let defaultValue: unknown;
+        if (inner instanceof z.ZodDefault) {
+            defaultValue = inner._def.defaultValue();
+            inner = inner.removeDefault();
+        }
+        if (inner instanceof z.ZodOptional) {
+            inner = inner.unwrap();
+        }
+        const { description = wrapperDescription, ...fieldSchema } = toOpenApiSchema(inner);
+        if (typeof defaultValue !== 'undefined') {
+            fieldSchema.default = defaultValue;
+        }
+        return {
+            in: 'query',
+            name,
+            required: !field.isOptional(),
+            ...(description ? { description } : {}),
+            schema: fieldSchema,
+            // Lists are passed comma-separated, e.g. ids=1,2,3
+            ...(fieldSchema.type === 'array' ? { style: 'form', explode: false } : {})
+        };
+    });
+    return [...pathParameters, ...queryParameters];
+}
+
+function toOperation(operation: OperationSpec): Record<string, unknown> {
+    const result: Record<string, unknown> = {
+        summary: operation.summary,
+        operationId: operation.operationId
+    };
+    if (operation.description) {
+        result.description = operation.description;
+    }
+    const parameters = toParameters(operation);
+    if (parameters.length > 0) {
+        result.parameters = parameters;
+    }
+    if (operation.body) {
+        result.requestBody = { required: true, content: { 'application/json': { schema: toOpenApiSchema(operation.body) } } };
+    } else if (operation.bodyContentTypes) {
+        result.requestBody = {
+            required: true,
+            content: Object.fromEntries(operation.bodyContentTypes.map((type) => [type, {}]))
+        };
+    }
+
+    const problemContent = { [PROBLEM_CONTENT_TYPE]: { schema: toOpenApiSchema(problemDetailsSchema) } };
+    const responses: Record<string, unknown> = {};
+    for (const [status, response] of Object.entries(operation.responses)) {
+        const content = Number(status) >= 400
+            ? problemContent
+            : response.schema
+                ? { 'application/json': { schema: toOpenApiSchema(response.schema) } }
+                : response.contentTypes && Object.fromEntries(response.contentTypes.map((type) => [type, {}]));
+        responses[status] = content ? { description: response.description, content } : { description: response.description };
+    }
+    if (operation.body || operation.query) {
+        responses['400'] ??= { description: 'Invalid request', content: problemContent };
+    }
+    if (operation.path.includes('{')) {
+        responses['404'] ??= { description: 'Not found', content: problemContent };
+    }
+    if (operation.public) {
+        result.security = [];
+    } else {
+        responses['401'] ??= { description: 'Authentication required', content: problemContent };
+    }
+    result.responses = responses;
+    return result;
+}
+
+/**
+ * Schemes every operation but `getSchema` accepts; see `createAuthenticator`.
+ */
+const SECURITY_SCHEMES = {
+    bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+    apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' }
+};
+
+/**
+ * Builds the OpenAPI document served at `/api/schema`, for Azure AI Foundry agents and other clients.
+ *
+ * @param serverUrl - Base URL of this app, as seen by the client.
+ */
+export function createOpenApiDocument(serverUrl: string): Record<string, unknown> {
+    const paths: Record<string, Record<string, unknown>> = {};
+    for (const operation of OPERATIONS) {
+        paths[operation.path] = { ...paths[operation.path], [operation.method]: toOperation(operation) };
+    }
+    const { schemas } = zodToJsonSchema(z.object({}), CONVERSION_OPTIONS) as { schemas: Record<string, unknown> };
+
+    return {
+        openapi: '3.0.0',
+        info: {
+            title: 'Task Manager API',
+            version: '1.0.0',
+            description: 'A simple task management API for Azure AI Foundry Agents'
+        },
+        servers: [
+            {
+                url: serverUrl,
+                description: 'Task API'
+            }
+        ],
+        security: [{ bearerAuth: [] }, { apiKey: [] }],
+        paths,
+        components: { schemas, securitySchemes: SECURITY_SCHEMES }
+    };
+}
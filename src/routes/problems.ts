@@ -0,0 +1,60 @@
+import { STATUS_CODES } from 'http';
+import { NextFunction, Request, Response } from 'express';
+import { AppError, NotFoundError, RateLimitError, toProblemDetails } from '../errors';
+import { ProblemDetails } from '../types';
+
+export const PROBLEM_CONTENT_TYPE = 'application/problem+json';
+
+/**
+ * Answers a request with the problem details of `error`.
+ *
+ * Unexpected errors, and the errors behind an upstream failure, are logged; expected problems
+ * such as validation failures or a missing agent configuration are not.
+ *
+ * @param fallbackDetail - Shown to the client for errors that are not `AppError`s, e.g. `Failed to get tasks`.
+ */
+export function sendProblem(req: Request, res: Response, error: unknown, fallbackDetail: string): void {
+    const problem = toProblemDetails(error, fallbackDetail, req.originalUrl);
+    if (!(error instanceof AppError)) {
+        console.error(`${fallbackDetail}:`, error);
+    } else if (error.cause) {
+        console.error(`${fallbackDetail}: ${error.message}`, error.cause);
+    }
+    if (error instanceof RateLimitError) {
+        res.set('Retry-After', String(error.retryAfter));
+    }
+    res.status(problem.status).type(PROBLEM_CONTENT_TYPE).json(problem);
+}
+
+/**
+ * Answers requests no API route matched with a 404 problem.
+ */
+export function notFoundHandler(req: Request, res: Response): void {
+    sendProblem(req, res, new NotFoundError(`No route for ${req.method} ${req.path}`), 'Not found');
+}
+
+/**
+ * Error-handling middleware that renders errors raised outside the route handlers, such as
+ * unparseable JSON bodies, as problem details instead of Express's HTML error page.
+ */
+export function problemHandler(error: any, req: Request, res: Response, next: NextFunction): void {
+    if (res.headersSent) {
+        next(error);
+        return;
+    }
+    // Body parser errors carry the status to answer with, e.g. 400 for malformed JSON or 413 for large bodies
+    const status = typeof error?.status === 'number' && error.status >= 400 && error.status < 500 ? error.status : null;
+    if (status === null) {
+        sendProblem(req, res, error, 'Failed to process request');
+        return;
+    }
+    const problem: ProblemDetails = {
+        type: 'about:blank',
+        title: STATUS_CODES[status] ?? 'Bad Request',
+        status,
+        detail: error.expose ? error.message : STATUS_CODES[status],
+        instance: req.originalUrl,
+        retryable: false
+    };
+    res.status(status).type(PROBLEM_CONTENT_TYPE).json(problem);
+}
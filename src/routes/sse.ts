@@ -0,0 +1,55 @@
+import { Response } from 'express';
+
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+/**
+ * A Server-Sent Events response opened by `openEventStream`.
+ */
+export interface EventStream {
+    /** True once the client has disconnected or the stream was closed. */
+    readonly closed: boolean;
+    send(event: string, data: unknown, id?: string | number): void;
+    close(): void;
+}
+
+/**
+ * Switches `res` to a Server-Sent Events stream.
+ *
+ * A comment line is sent periodically so proxies such as the App Service front end do not
+ * drop idle connections. The stream is marked closed when the client disconnects.
+ */
+export function openEventStream(res: Response): EventStream {
+    res.status(200).set({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no'
+    });
+    res.flushHeaders();
+
+    let closed = false;
+    const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), HEARTBEAT_INTERVAL_MS);
+    const close = () => {
+        if (!closed) {
+            closed = true;
+            clearInterval(heartbeat);
+            res.end();
+        }
+    };
+    // `res` rather than `req`: the request emits 'close' as soon as its body has been read
+    res.on('close', close);
+
+    return {
+        get closed() {
+            return closed;
+        },
+        send(event: string, data: unknown, id?: string | number) {
+            if (closed) {
+                return;
+            }
+            const idLine = typeof id !== 'undefined' ? `id: ${id}\n` : '';
+            res.write(`${idLine}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+        },
+        close
+    };
+}
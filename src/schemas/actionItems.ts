@@ -0,0 +1,38 @@
+import { z } from 'zod';
+import { isoDateSchema, taskPrioritySchema } from './tasks';
+
+// Zod schemas for extracting action items from text. `extractedTasksSchema` is also the
+// structured output the model is asked for, so its descriptions are instructions to the model.
+
+/**
+ * Longest text accepted for extraction, in characters.
+ */
+export const MAX_EXTRACT_LENGTH = 20000;
+
+export const extractTasksRequestSchema = z.object({
+    text: z.string().trim().min(1, 'Text is required').max(MAX_EXTRACT_LENGTH)
+        .describe('Email, meeting notes or other text to find action items in.')
+});
+
+/**
+ * A task proposed from the text. Nothing is created until the user confirms it.
+ */
+export const proposedTaskSchema = z.object({
+    title: z.string().trim().min(1)
+        .describe('Short imperative title of the action item, e.g. "Send the Q3 report to Dana".'),
+    description: z.string().nullable()
+        .describe('Context the title leaves out, such as who asked for it and why, or null.'),
+    dueDate: isoDateSchema.nullable()
+        .describe('The deadline in ISO 8601 format (YYYY-MM-DD), resolved against today\'s date, or null when the text gives none or it is too vague to pin down.'),
+    dueDateHint: z.string().nullable()
+        .describe('The deadline as the text words it, e.g. "by end of next week", or null when the text gives none.'),
+    priority: taskPrioritySchema
+        .describe('high when the text calls the item urgent or blocking, low when optional, otherwise medium.'),
+    sourceSnippet: z.string()
+        .describe('The sentence or bullet of the text the action item comes from, quoted exactly.')
+});
+
+export const extractedTasksSchema = z.object({
+    tasks: z.array(proposedTaskSchema)
+        .describe('Every action item in the text, in the order they appear; an empty list when there are none.')
+}).describe('Records the action items found in the text.');
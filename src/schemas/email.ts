@@ -0,0 +1,49 @@
+import { z } from 'zod';
+
+// Zod schemas for the proofreading route. The model's answer is validated with
+// `proofreadModelOutputSchema` before its edits are located in the text, so a malformed answer
+// is reported as an upstream failure rather than returned to the client.
+
+/**
+ * Longest email accepted for proofreading, in characters.
+ */
+export const MAX_PROOFREAD_LENGTH = 20000;
+
+export const proofreadToneSchema = z.enum(['neutral', 'formal', 'friendly', 'concise'])
+    .describe('Tone the email should be brought to; edits that change the tone have the category `tone`.');
+
+export const proofreadCategorySchema = z.enum(['spelling', 'grammar', 'tone']);
+
+export const proofreadRequestSchema = z.object({
+    text: z.string().trim().min(1, 'Text is required').max(MAX_PROOFREAD_LENGTH),
+    tone: proofreadToneSchema.optional()
+        .describe('Leave out to keep the tone of the email as it is.'),
+    locale: z.string().regex(/^[a-z]{2,3}(-[A-Z]{2})?$/, 'Expected a language tag such as en-US').default('en-US')
+        .describe('Language and region whose spelling and grammar conventions apply, e.g. en-GB.')
+});
+
+/**
+ * One change to the email. `start` and `end` are offsets into the submitted text, in UTF-16
+ * code units as in JavaScript strings, with `end` exclusive.
+ */
+export const proofreadEditSchema = z.object({
+    start: z.number().int().nonnegative(),
+    end: z.number().int().nonnegative(),
+    original: z.string(),
+    replacement: z.string(),
+    category: proofreadCategorySchema,
+    explanation: z.string()
+});
+
+/**
+ * The edits as the model is asked to return them: the text they replace, quoted from the email,
+ * rather than offsets, which models count unreliably.
+ */
+export const proofreadModelOutputSchema = z.object({
+    edits: z.array(z.object({
+        original: z.string().min(1),
+        replacement: z.string(),
+        category: proofreadCategorySchema,
+        explanation: z.string()
+    }))
+});
@@ -0,0 +1,332 @@
+import { z } from 'zod';
+import type { TaskTreeNode } from '../types';
+
+// Zod schemas for the task data accepted and returned by the REST routes and the agent tools.
+// The task types in `src/types` are inferred from them, and the OpenAPI document is generated
+// from them, so validation, types and documentation cannot drift apart. Descriptions are sent to
+// the models as tool and OpenAPI documentation, so they double as instructions.
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+/**
+ * Most operations accepted in one batch.
+ */
+export const MAX_BATCH_OPERATIONS = 100;
+
+/**
+ * ID of the Inbox list, which new tasks go to unless they name a list. It cannot be deleted.
+ */
+export const DEFAULT_LIST_ID = 1;
+
+export const taskPrioritySchema = z.enum(['low', 'medium', 'high'])
+    .describe('Task priority.');
+
+export const taskSortFieldSchema = z.enum(['id', 'title', 'dueDate', 'priority', 'createdAt', 'updatedAt']);
+
+export const taskIdSchema = z.number().int().positive();
+
+export const taskListIdSchema = z.number().int().positive()
+    .describe(`ID of a task list. The Inbox list has ID ${DEFAULT_LIST_ID}.`);
+
+export const isoDateSchema = z.string()
+    .refine((value) => !isNaN(Date.parse(value)), 'Expected an ISO 8601 date');
+
+/**
+ * Every field a client can set on a task, as required when creating one.
+ */
+const taskFieldsSchema = z.object({
+    title: z.string().trim().min(1, 'Title is required'),
+    description: z.string().nullable()
+        .describe('Longer free-text notes about the task. Use null to clear it.'),
+    isComplete: z.boolean(),
+    dueDate: isoDateSchema.nullable()
+        .describe('Due date in ISO 8601 format (YYYY-MM-DD) or a date-time. Resolve relative dates such as "Friday" against today\'s date. Use null to clear it.'),
+    priority: taskPrioritySchema,
+    tags: z.array(z.string())
+        .describe('Labels for the task. Replaces the existing tags when updating.'),
+    listId: taskListIdSchema
+        .describe(`ID of the list the task belongs to. New tasks go to the Inbox list (ID ${DEFAULT_LIST_ID}) unless one is given; new subtasks go to their parent's list.`),
+    parentId: taskIdSchema.nullable()
+        .describe('ID of the task this is a subtask of. Use null to make it a top-level task.'),
+    blockedBy: z.array(taskIdSchema)
+        .describe('IDs of the tasks that must be complete before this one can be worked on. Replaces the existing dependencies when updating.')
+});
+
+/**
+ * Fields accepted when creating a task. Everything except the title is optional.
+ */
+export const createTaskInputSchema = taskFieldsSchema.partial().required({ title: true });
+
+/**
+ * Fields accepted when updating a task. Omitted fields keep their current value;
+ * `null` clears an optional field.
+ */
+export const updateTaskInputSchema = taskFieldsSchema.partial();
+
+export const taskSchema = z.object({
+    id: taskIdSchema,
+    title: z.string(),
+    description: z.string().nullable(),
+    isComplete: z.boolean(),
+    dueDate: z.string().nullable()
+        .describe('ISO 8601 date (YYYY-MM-DD) or date-time, or null when the task has no deadline.'),
+    priority: taskPrioritySchema,
+    tags: z.array(z.string()),
+    listId: taskListIdSchema,
+    parentId: taskIdSchema.nullable()
+        .describe('The task this is a subtask of, or null for a top-level task.'),
+    blockedBy: z.array(taskIdSchema)
+        .describe('The tasks that must be complete before this one can be worked on.'),
+    createdAt: z.string().datetime(),
+    updatedAt: z.string().datetime(),
+    completedAt: z.string().datetime().nullable()
+});
+
+/**
+ * Criteria selecting tasks, combined with AND. Every field is optional.
+ */
+export const taskFilterSchema = z.object({
+    ids: z.array(taskIdSchema).optional()
+        .describe('Only the tasks with these IDs.'),
+    isComplete: z.boolean().optional()
+        .describe('true for completed tasks only, false for open tasks only.'),
+    search: z.string().optional()
+        .describe('Case-insensitive text to look for in task titles.'),
+    priority: taskPrioritySchema.optional(),
+    tag: z.string().optional(),
+    listId: taskListIdSchema.optional()
+        .describe('Only the tasks in this list.'),
+    parentId: taskIdSchema.optional()
+        .describe('Only the subtasks of this task.')
+});
+
+/**
+ * Filters, sort order and page window for listing tasks. Every field is optional.
+ */
+export const taskQuerySchema = taskFilterSchema.extend({
+    sortBy: taskSortFieldSchema.optional(),
+    sortOrder: z.enum(['asc', 'desc']).optional(),
+    limit: z.number().int().min(1).max(MAX_PAGE_SIZE).optional()
+        .describe(`Maximum number of tasks to return. Defaults to ${DEFAULT_PAGE_SIZE}.`),
+    offset: z.number().int().min(0).optional()
+        .describe('Number of matching tasks to skip, for paging through long lists.')
+});
+
+/**
+ * One page of tasks together with the number of tasks matching the filters.
+ */
+export const taskPageSchema = z.object({
+    tasks: z.array(taskSchema),
+    total: z.number().int(),
+    limit: z.number().int(),
+    offset: z.number().int()
+});
+
+export const taskBatchOperationSchema = z.discriminatedUnion('op', [
+    z.object({ op: z.literal('create'), task: createTaskInputSchema }),
+    z.object({ op: z.literal('update'), id: taskIdSchema, changes: updateTaskInputSchema }),
+    z.object({ op: z.literal('delete'), id: taskIdSchema })
+]);
+
+export const taskBatchSchema = z.object({
+    operations: z.array(taskBatchOperationSchema).min(1).max(MAX_BATCH_OPERATIONS)
+});
+
+/**
+ * Result of one batch step: the task as created or updated, or the ID of the deleted task.
+ */
+export const taskBatchResultSchema = z.discriminatedUnion('op', [
+    z.object({ op: z.literal('create'), task: taskSchema }),
+    z.object({ op: z.literal('update'), task: taskSchema }),
+    z.object({ op: z.literal('delete'), id: taskIdSchema })
+]);
+
+/**
+ * A task with its subtasks, and theirs, as returned by the tree routes. Typed by hand, as
+ * recursive schemas cannot be inferred.
+ */
+export const taskTreeNodeSchema = taskSchema.extend({
+    isBlocked: z.boolean()
+        .describe('True while a task it is blocked by is not complete.'),
+    progress: z.object({
+        completed: z.number().int(),
+        total: z.number().int()
+    }).describe('How many of its direct subtasks are complete.'),
+    subtasks: z.lazy(() => z.array(taskTreeNodeSchema))
+}) as unknown as z.ZodType<TaskTreeNode>;
+
+/**
+ * Subtasks to add to a task, such as the steps a task is broken down into.
+ */
+export const addSubtasksInputSchema = z.object({
+    subtasks: z.array(createTaskInputSchema.omit({ parentId: true })).min(1).max(MAX_BATCH_OPERATIONS)
+        .describe('The subtasks, in the order they are to be done.'),
+    sequential: z.boolean().default(false)
+        .describe('Block each subtask by the one before it, for steps that have to be done in order.')
+});
+
+/**
+ * Criteria selecting the actionable tasks: open tasks that are neither blocked nor waiting
+ * for subtasks of their own.
+ */
+export const actionableTasksQuerySchema = taskFilterSchema.omit({ isComplete: true }).extend({
+    limit: z.number().int().min(1).max(MAX_PAGE_SIZE).optional()
+        .describe(`Maximum number of tasks to return. Defaults to ${DEFAULT_PAGE_SIZE}.`)
+});
+
+/**
+ * A named list of tasks, such as a project, with the number of tasks in it.
+ */
+export const taskListSchema = z.object({
+    id: taskListIdSchema,
+    name: z.string(),
+    description: z.string().nullable(),
+    taskCount: z.number().int(),
+    openTaskCount: z.number().int()
+        .describe('Tasks in the list that are not complete.'),
+    createdAt: z.string().datetime(),
+    updatedAt: z.string().datetime()
+});
+
+const taskListFieldsSchema = z.object({
+    name: z.string().trim().min(1, 'Name is required').max(100)
+        .describe('Name of the list, unique ignoring case, e.g. "Launch".'),
+    description: z.string().nullable()
+        .describe('What the list is for. Use null to clear it.')
+});
+
+export const createTaskListInputSchema = taskListFieldsSchema.partial().required({ name: true });
+
+export const updateTaskListInputSchema = taskListFieldsSchema.partial();
+
+/**
+ * Tasks to move into a list.
+ */
+export const moveTasksInputSchema = z.object({
+    ids: z.array(taskIdSchema).min(1).max(MAX_BATCH_OPERATIONS)
+        .describe('IDs of the tasks to move.')
+});
+
+/**
+ * What deleting a list does with its tasks: `move` them to the Inbox list or `delete` them too.
+ */
+export const taskListDeletePolicySchema = z.enum(['move', 'delete']);
+
+export const taskChangeTypeSchema = z.enum(['created', 'updated', 'deleted']);
+
+/**
+ * Who made a change to a task.
+ *
+ * - `user`: a person, through the REST routes.
+ * - `agent`: a chat agent's tool call, in the given chat session.
+ * - `system`: the app itself, e.g. a maintenance job.
+ */
+export const taskActorSchema = z.object({
+    type: z.enum(['user', 'agent', 'system']),
+    agentId: z.string().optional(),
+    sessionId: z.string().optional()
+});
+
+/**
+ * A change to a task, as published by `TaskService.onChange` and `GET /api/tasks/events`.
+ * Changes are kept as the task's audit trail.
+ */
+export const taskChangeEventSchema = z.object({
+    id: z.number().int()
+        .describe('Increasing ID of the change; clients resume the feed after the last ID they saw.'),
+    type: taskChangeTypeSchema,
+    taskId: taskIdSchema,
+    before: taskSchema.nullable()
+        .describe('The task before the change; null when it was created.'),
+    task: taskSchema.nullable()
+        .describe('The task after the change; null when it was deleted.'),
+    actor: taskActorSchema,
+    revertsEventId: z.number().int().nullable()
+        .describe('The change this one undid, if it was made by an undo.'),
+    createdAt: z.string().datetime()
+});
+
+export const taskFormatSchema = z.enum(['json', 'csv', 'markdown', 'ical']);
+
+/**
+ * What an import does with a task whose title matches an existing task, ignoring case:
+ * `skip` it, `update` the existing task with its fields, or `create` it anyway.
+ */
+export const duplicatePolicySchema = z.enum(['skip', 'update', 'create']);
+
+/**
+ * What happened, or with `dryRun` would happen, to each imported task.
+ */
+export const taskImportResultSchema = z.object({
+    dryRun: z.boolean(),
+    created: z.number().int(),
+    updated: z.number().int(),
+    skipped: z.number().int(),
+    items: z.array(z.object({
+        title: z.string(),
+        action: z.enum(['create', 'update', 'skip']),
+        taskId: taskIdSchema.optional()
+            .describe('The task created or updated; for a dry run, only set for tasks that already exist.')
+    }))
+});
+
+/**
+ * Wraps each field of `schema` so it also accepts the string form of its value found in query
+ * strings: `true`/`false` for booleans, digits for numbers and comma-separated lists for arrays.
+ * Values that do not convert are passed on unchanged and rejected by the field's own schema.
+ */
+export function fromQueryString<T extends z.ZodRawShape>(schema: z.ZodObject<T>): z.ZodObject<T> {
+    const shape: z.ZodRawShape = {};
+    for (const [key, field] of Object.entries(schema.shape)) {
+        shape[key] = z.preprocess(queryValueConverter(field), field);
+    }
+    return z.object(shape) as unknown as z.ZodObject<T>;
+}
+
+function queryValueConverter(field: z.ZodTypeAny): (value: unknown) => unknown {
+    let inner = field;
+    while (inner instanceof z.ZodOptional || inner instanceof z.ZodNullable || inner instanceof z.ZodDefault) {
+        inner = inner._def.innerType;
+    }
+    if (inner instanceof z.ZodBoolean) {
+        return (value) => (value === 'true' ? true : value === 'false' ? false : value);
+    }
+    if (inner instanceof z.ZodNumber) {
+        return (value) => (typeof value === 'string' && /^-?\d+$/.test(value) ? Number(value) : value);
+    }
+    if (inner instanceof z.ZodArray) {
+        const convertItem = queryValueConverter(inner.element);
+        return (value) => (typeof value === 'string' ? value.split(',').map(convertItem) : value);
+    }
+    return (value) => value;
+}
+
+/**
+ * Query string of `GET /api/tasks`.
+ */
+export const taskQueryParamsSchema = fromQueryString(taskQuerySchema);
+
+/**
+ * Query string of the routes that change or export every task matching a filter.
+ */
+export const taskFilterParamsSchema = fromQueryString(taskFilterSchema);
+
+export const taskExportParamsSchema = fromQueryString(taskFilterSchema.extend({
+    format: taskFormatSchema.default('json')
+}));
+
+export const actionableTasksParamsSchema = fromQueryString(actionableTasksQuerySchema);
+
+export const taskListDeleteParamsSchema = fromQueryString(z.object({
+    tasks: taskListDeletePolicySchema.default('move')
+        .describe('move the list\'s tasks to the Inbox list, or delete them with the list.')
+}));
+
+export const taskImportParamsSchema = fromQueryString(z.object({
+    format: taskFormatSchema.optional()
+        .describe('Format of the request body. Defaults to the format matching the Content-Type.'),
+    duplicates: duplicatePolicySchema.default('skip'),
+    dryRun: z.boolean().default(false)
+        .describe('Report what the import would do without changing anything.')
+}));
@@ -0,0 +1,32 @@
+import { z } from 'zod';
+import { ValidationError } from '../errors';
+
+/**
+ * Checks `data` against `schema`. Returns the parsed value, with defaults applied and unknown
+ * fields removed, or an error message naming every invalid field.
+ */
+export function validate<S extends z.ZodTypeAny>(schema: S, data: unknown): { value?: z.output<S>; error?: string } {
+    const result = schema.safeParse(data);
+    if (result.success) {
+        return { value: result.data };
+    }
+    return { error: result.error.issues.map(describeIssue).join('; ') };
+}
+
+/**
+ * Like `validate`, but throws a `ValidationError` naming every invalid field instead of returning it.
+ */
+export function parseRequest<S extends z.ZodTypeAny>(schema: S, data: unknown): z.output<S> {
+    const { value, error } = validate(schema, data);
+    if (error) {
+        throw new ValidationError(error);
+    }
+    return value;
+}
+
+function describeIssue(issue: z.ZodIssue): string {
+    const path = issue.path
+        .map((segment, index) => (typeof segment === 'number' ? `[${segment}]` : index > 0 ? `.${segment}` : segment))
+        .join('');
+    return path ? `${path}: ${issue.message}` : issue.message;
+}
@@ -0,0 +1,93 @@
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { HumanMessage, SystemMessage } from '@langchain/core/messages';
+import type { Runnable, RunnableConfig } from '@langchain/core/runnables';
+import { createChatModel } from '../llm/createChatModel';
+import { TraceCallbackHandler } from '../llm/TraceCallbackHandler';
+import { ChatTraceRecorder } from '../telemetry/ChatTraceRecorder';
+import { extractedTasksSchema } from '../schemas/actionItems';
+import { validate } from '../schemas/validate';
+import { AgentNotConfiguredError, UpstreamError, asUpstreamError } from '../errors';
+import { ProposedTask, TaskExtraction } from '../types';
+
+const FAILURE_DETAIL = 'The language model could not extract action items from the text.';
+const INVALID_OUTPUT_DETAIL = 'The language model did not answer with action items in the expected format.';
+
+export interface ActionItemExtractorOptions {
+    /** Chat model to use instead of the one selected by `LLM_PROVIDER`, e.g. the LangGraph agent's. */
+    llm?: BaseChatModel;
+}
+
+/**
+ * Finds the action items in an email, meeting notes or other text and proposes them as tasks,
+ * using the chat model's structured output. Proposals are returned, never created: the caller
+ * shows them to the user, who edits and confirms them before they are added.
+ */
+export class ActionItemExtractor {
+    /** Identifies the extractor in traces, metrics and quotas, like an agent ID. */
+    readonly id = 'actionitems';
+
+    private model: Runnable | null = null;
+    private configurationHint = 'Set AZURE_OPENAI_ENDPOINT and AZURE_OPENAI_DEPLOYMENT_NAME';
+
+    constructor(options: ActionItemExtractorOptions = {}) {
+        let llm = options.llm;
+        if (!llm) {
+            const selection = createChatModel();
+            if (!selection.model) {
+                console.warn(`LLM configuration missing for action item extraction (${selection.provider}): ${selection.detail}`);
+                this.configurationHint = selection.detail ?? this.configurationHint;
+                return;
+            }
+            llm = selection.model;
+        }
+        this.model = llm.withStructuredOutput(extractedTasksSchema, { name: 'proposeTasks' });
+    }
+
+    /**
+     * Proposes tasks for the action items in `text`.
+     *
+     * @param config - Config of the calling run, e.g. a tool call, so its callbacks see the model call.
+     * @throws AgentNotConfiguredError when no chat model is configured.
+     * @throws UpstreamError when the model call fails or its output is not valid.
+     */
+    async proposeTasks(text: string, config?: RunnableConfig): Promise<ProposedTask[]> {
+        if (!this.model) {
+            throw new AgentNotConfiguredError(`Action item extraction is not configured. ${this.configurationHint}`);
+        }
+        let output: unknown;
+        try {
+            output = await this.model.invoke([
+                // Rebuilt on every call so relative due dates resolve against the current date
+                new SystemMessage(`You find the action items in emails, meeting notes and similar text: things someone is asked, or has agreed, to do.
+Leave out information without anything to do, and things that are already done.
+Give each action item a short imperative title, and quote the text it comes from.
+
+Today's date is ${new Date().toISOString().slice(0, 10)}.`),
+                new HumanMessage(text)
+            ], config);
+        } catch (error) {
+            throw asUpstreamError(error, FAILURE_DETAIL);
+        }
+        const { value, error } = validate(extractedTasksSchema, output);
+        if (error) {
+            throw new UpstreamError(`${INVALID_OUTPUT_DETAIL} ${error}`);
+        }
+        return value.tasks;
+    }
+
+    /**
+     * Proposes tasks for `POST /api/tasks/extract`, recording the model call as a turn of its own.
+     *
+     * @throws Like `proposeTasks`.
+     */
+    async extract(text: string): Promise<TaskExtraction> {
+        const recorder = new ChatTraceRecorder(this.id, 'extract');
+        try {
+            const tasks = await this.proposeTasks(text, { callbacks: [new TraceCallbackHandler(recorder)] });
+            return { tasks, trace: recorder.finish() };
+        } catch (error) {
+            recorder.finish('error', error);
+            throw error;
+        }
+    }
+}
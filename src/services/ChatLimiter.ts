@@ -0,0 +1,246 @@
+import { Request, Response } from 'express';
+import { Database } from '../database/Database';
+import { RateLimitError } from '../errors';
+import { MemoryRateLimitStore, RateLimitStore, SqliteRateLimitStore } from './RateLimitStore';
+import { TokenUsage } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * At most `limit` requests per fixed window of `windowSeconds`.
+ */
+export interface RateLimit {
+    limit: number;
+    windowSeconds: number;
+}
+
+/**
+ * Most messages and model tokens an agent may use per UTC day. Omitted limits are unlimited.
+ */
+export interface DailyQuota {
+    messages?: number;
+    tokens?: number;
+}
+
+export interface ChatLimiterOptions {
+    /** Requests per client IP address, across all agents. Null for no limit. */
+    perIp: RateLimit | null;
+    /** Requests per chat session of an agent. Null for no limit. */
+    perSession: RateLimit | null;
+    /** Quota of agents without their own entry in `agentQuotas`. */
+    defaultQuota: DailyQuota;
+    /** Quotas by agent ID. */
+    agentQuotas: Record<string, DailyQuota>;
+}
+
+/**
+ * State of one rate limit after counting a request.
+ */
+interface WindowCount extends RateLimit {
+    name: string;
+    count: number;
+    resetAt: number;
+}
+
+/**
+ * Returns the client's IP address. Behind a proxy this relies on Express's `trust proxy` setting;
+ * the port some proxies, such as the App Service front end, append to IPv4 addresses is dropped
+ * so every connection from a client counts against the same limit.
+ */
+function clientIp(req: Request): string {
+    const ip = req.ip ?? req.socket.remoteAddress ?? 'unknown';
+    return /^\d+\.\d+\.\d+\.\d+:\d+$/.test(ip) ? ip.slice(0, ip.lastIndexOf(':')) : ip;
+}
+
+function secondsUntil(time: number): number {
+    return Math.max(1, Math.ceil((time - Date.now()) / 1000));
+}
+
+/**
+ * Protects the chat routes, which call paid models, from runaway clients.
+ *
+ * Each request counts against a per-IP and a per-session rate limit, in fixed windows, and
+ * against the agent's daily message quota. The agent's daily token quota is charged after each
+ * reply with the tokens it used, and rejects further requests once spent. Daily quotas reset at
+ * midnight UTC.
+ */
+export class ChatLimiter {
+    private store: RateLimitStore;
+    private options: ChatLimiterOptions;
+
+    constructor(store: RateLimitStore, options: ChatLimiterOptions) {
+        this.store = store;
+        this.options = options;
+    }
+
+    /**
+     * Counts a chat request and sets the `RateLimit-*` and `X-Quota-*` headers on the response.
+     *
+     * @param sessionId - The chat session, when the request names one.
+     * @throws RateLimitError when a rate limit or quota is exceeded; nothing is sent to the agent.
+     */
+    async admit(req: Request, res: Response, agentId: string, sessionId?: string): Promise<void> {
+        const windows: WindowCount[] = [];
+        if (this.options.perIp) {
+            windows.push(await this.countWindow('ip', `ip:${clientIp(req)}`, this.options.perIp));
+        }
+        if (this.options.perSession && sessionId) {
+            windows.push(await this.countWindow('session', `session:${agentId}:${sessionId}`, this.options.perSession));
+        }
+        // Headers describe the limit closest to running out
+        const tightest = windows.sort((a, b) => (a.limit - a.count) - (b.limit - b.count))[0];
+        if (tightest) {
+            res.set({
+                'RateLimit-Limit': String(tightest.limit),
+                'RateLimit-Remaining': String(Math.max(0, tightest.limit - tightest.count)),
+                'RateLimit-Reset': String(secondsUntil(tightest.resetAt))
+            });
+        }
+        const exceeded = windows.find((window) => window.count > window.limit);
+        if (exceeded) {
+            throw new RateLimitError(
+                `Too many chat requests per ${exceeded.name}: at most ${exceeded.limit} every ${exceeded.windowSeconds} seconds`,
+                exceeded.name,
+                secondsUntil(exceeded.resetAt)
+            );
+        }
+
+        await this.countMessage(agentId, res);
+    }
+
+    /**
+     * Counts a message one agent hands to another on a client's behalf, such as the supervisor's
+     * handovers to its specialists, against the daily quotas of the agent receiving it. The rate
+     * limits already counted the client's request.
+     *
+     * @throws RateLimitError when a quota of the agent is spent.
+     */
+    async admitDelegate(agentId: string): Promise<void> {
+        await this.countMessage(agentId);
+    }
+
+    /**
+     * Counts a message against the agent's daily message quota, after checking that neither of
+     * its quotas is spent, and reports them in the `X-Quota-*` headers of `res`, when given.
+     */
+    private async countMessage(agentId: string, res?: Response): Promise<void> {
+        const quota = this.quotaFor(agentId);
+        const { day, resetAt } = this.currentDay();
+        const [messages, tokens] = await Promise.all([
+            this.store.get(`quota:${agentId}:messages:${day}`),
+            this.store.get(`quota:${agentId}:tokens:${day}`)
+        ]);
+        if (res) {
+            this.setQuotaHeaders(res, quota, messages, tokens, resetAt);
+        }
+        if (typeof quota.messages === 'number' && messages >= quota.messages) {
+            throw new RateLimitError(`Agent ${agentId} has used its daily quota of ${quota.messages} messages`, 'messages', secondsUntil(resetAt));
+        }
+        if (typeof quota.tokens === 'number' && tokens >= quota.tokens) {
+            throw new RateLimitError(`Agent ${agentId} has used its daily quota of ${quota.tokens} tokens`, 'tokens', secondsUntil(resetAt));
+        }
+        const used = await this.store.increment(`quota:${agentId}:messages:${day}`, 1, resetAt);
+        if (res) {
+            this.setQuotaHeaders(res, quota, used, tokens, resetAt);
+        }
+    }
+
+    /**
+     * Charges the tokens of a reply to the agent's daily token quota. For replies with delegates,
+     * pass the agent's `ownUsage`; the delegates are charged when they answer.
+     */
+    async recordUsage(agentId: string, usage: TokenUsage | null | undefined): Promise<void> {
+        if (!usage || usage.totalTokens <= 0) {
+            return;
+        }
+        const { day, resetAt } = this.currentDay();
+        await this.store.increment(`quota:${agentId}:tokens:${day}`, usage.totalTokens, resetAt);
+    }
+
+    private async countWindow(name: string, key: string, rateLimit: RateLimit): Promise<WindowCount> {
+        const windowMs = rateLimit.windowSeconds * 1000;
+        const resetAt = (Math.floor(Date.now() / windowMs) + 1) * windowMs;
+        const count = await this.store.increment(`${key}:${resetAt}`, 1, resetAt);
+        return { ...rateLimit, name, count, resetAt };
+    }
+
+    private quotaFor(agentId: string): DailyQuota {
+        return { ...this.options.defaultQuota, ...this.options.agentQuotas[agentId] };
+    }
+
+    private currentDay(): { day: string; resetAt: number } {
+        const now = Date.now();
+        return { day: new Date(now).toISOString().slice(0, 10), resetAt: (Math.floor(now / DAY_MS) + 1) * DAY_MS };
+    }
+
+    private setQuotaHeaders(res: Response, quota: DailyQuota, messages: number, tokens: number, resetAt: number): void {
+        if (typeof quota.messages === 'number') {
+            res.set('X-Quota-Messages-Limit', String(quota.messages));
+            res.set('X-Quota-Messages-Remaining', String(Math.max(0, quota.messages - messages)));
+        }
+        if (typeof quota.tokens === 'number') {
+            res.set('X-Quota-Tokens-Limit', String(quota.tokens));
+            res.set('X-Quota-Tokens-Remaining', String(Math.max(0, quota.tokens - tokens)));
+        }
+        if (typeof quota.messages === 'number' || typeof quota.tokens === 'number') {
+            res.set('X-Quota-Reset', String(secondsUntil(resetAt)));
+        }
+    }
+}
+
+/**
+ * Reads a non-negative integer setting; unset, empty or `0` means no limit.
+ */
+function readLimit(name: string): number | undefined {
+    const value = process.env[name];
+    if (!value) {
+        return undefined;
+    }
+    const limit = parseInt(value, 10);
+    if (isNaN(limit) || limit < 0) {
+        console.warn(`Ignoring ${name}=${value}: expected a non-negative integer`);
+        return undefined;
+    }
+    return limit > 0 ? limit : undefined;
+}
+
+/**
+ * Creates the limiter for the chat routes from the environment:
+ *
+ * - `CHAT_RATE_LIMIT_PER_IP` (default 30) and `CHAT_RATE_LIMIT_PER_SESSION` (default 10):
+ *   requests per `CHAT_RATE_LIMIT_WINDOW_SECONDS` (default 60). `0` disables the limit.
+ * - `CHAT_DAILY_MESSAGE_QUOTA` and `CHAT_DAILY_TOKEN_QUOTA`: daily quotas of every agent, unlimited
+ *   when unset. `CHAT_DAILY_MESSAGE_QUOTA_<AGENT>` and `CHAT_DAILY_TOKEN_QUOTA_<AGENT>`, e.g.
+ *   `CHAT_DAILY_TOKEN_QUOTA_LANGGRAPH`, set the quota of one agent.
+ * - `RATE_LIMIT_STORE`: `memory` (default) or `sqlite`, which keeps the counters in `database` so
+ *   they survive restarts and are shared by every instance using the same database file.
+ */
+export function createChatLimiter(database: Database): ChatLimiter {
+    const windowSeconds = readLimit('CHAT_RATE_LIMIT_WINDOW_SECONDS') ?? 60;
+    const rateLimit = (name: string, fallback: number): RateLimit | null => {
+        const limit = process.env[name] === undefined ? fallback : readLimit(name);
+        return limit ? { limit, windowSeconds } : null;
+    };
+
+    const agentQuotas: Record<string, DailyQuota> = {};
+    for (const name of Object.keys(process.env)) {
+        const match = /^CHAT_DAILY_(MESSAGE|TOKEN)_QUOTA_(.+)$/.exec(name);
+        if (match) {
+            const agentId = match[2].toLowerCase();
+            agentQuotas[agentId] = { ...agentQuotas[agentId], [match[1] === 'MESSAGE' ? 'messages' : 'tokens']: readLimit(name) };
+        }
+    }
+
+    const storeSetting = process.env.RATE_LIMIT_STORE ?? 'memory';
+    if (storeSetting !== 'memory' && storeSetting !== 'sqlite') {
+        console.warn(`Unknown RATE_LIMIT_STORE ${storeSetting}; keeping rate limit counters in memory`);
+    }
+    const store = storeSetting === 'sqlite' ? new SqliteRateLimitStore(database) : new MemoryRateLimitStore();
+
+    return new ChatLimiter(store, {
+        perIp: rateLimit('CHAT_RATE_LIMIT_PER_IP', 30),
+        perSession: rateLimit('CHAT_RATE_LIMIT_PER_SESSION', 10),
+        defaultQuota: { messages: readLimit('CHAT_DAILY_MESSAGE_QUOTA'), tokens: readLimit('CHAT_DAILY_TOKEN_QUOTA') },
+        agentQuotas
+    });
+}
@@ -0,0 +1,60 @@
+import { createHash } from 'crypto';
+import { Database } from '../database/Database';
+
+/**
+ * Session IDs clients may choose. Colons are reserved for the sessions agents derive from them,
+ * such as the supervisor's sessions of its specialists, and dots for `defaultSessionId`.
+ */
+export const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]{1,100}$/;
+
+/**
+ * Records which user each chat session belongs to, in the `chat_sessions` table, so users can
+ * only continue, read and delete their own conversations.
+ *
+ * Session IDs are chosen by clients and shared by every agent: the first message sent in a
+ * session claims it for its sender, and the session stays theirs after its conversation is deleted.
+ */
+export class ChatSessionOwners {
+    private db: Database;
+
+    constructor(db: Database) {
+        this.db = db;
+    }
+
+    /**
+     * Returns the session a user's messages go to when they name none. Every user has their own,
+     * which other users cannot claim, as its ID does not match `SESSION_ID_PATTERN`.
+     */
+    defaultSessionId(ownerId: string): string {
+        return `default.${createHash('sha256').update(ownerId).digest('hex').slice(0, 24)}`;
+    }
+
+    /**
+     * Claims a session for `ownerId`, unless another user claimed it first.
+     *
+     * @returns True when the session belongs to `ownerId`.
+     */
+    async claim(sessionId: string, ownerId: string): Promise<boolean> {
+        await this.db.run(
+            'INSERT OR IGNORE INTO chat_sessions (sessionId, ownerId, createdAt) VALUES (?, ?, ?)',
+            [sessionId, ownerId, new Date().toISOString()]
+        );
+        return this.isOwner(sessionId, ownerId);
+    }
+
+    /**
+     * Tells whether a session belongs to `ownerId`. Unclaimed sessions belong to nobody.
+     */
+    async isOwner(sessionId: string, ownerId: string): Promise<boolean> {
+        const row = await this.db.get('SELECT ownerId FROM chat_sessions WHERE sessionId = ?', [sessionId]);
+        return row?.ownerId === ownerId;
+    }
+
+    /**
+     * Returns the IDs of the sessions that belong to `ownerId`.
+     */
+    async listOwned(ownerId: string): Promise<Set<string>> {
+        const rows = await this.db.all('SELECT sessionId FROM chat_sessions WHERE ownerId = ?', [ownerId]);
+        return new Set(rows.map((row) => row.sessionId));
+    }
+}
@@ -0,0 +1,103 @@
+import { Database } from '../database/Database';
+
+/**
+ * Storage for the counters behind the chat rate limits and quotas.
+ *
+ * A counter is identified by its key and lives until `expiresAt`, the end of its window in
+ * epoch milliseconds. Callers put the window into the key, so an expired counter is never
+ * read again and only needs to be cleaned up.
+ */
+export interface RateLimitStore {
+    /**
+     * Adds `amount` to a counter, creating it if needed, and resolves with the new count.
+     */
+    increment(key: string, amount: number, expiresAt: number): Promise<number>;
+
+    /**
+     * Resolves with the current count of a counter, or 0 when it does not exist.
+     */
+    get(key: string): Promise<number>;
+}
+
+/**
+ * How often expired counters are deleted.
+ */
+const PRUNE_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Keeps counters in process memory. Limits reset when the app restarts and are not shared
+ * between instances.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+    private counters: Map<string, { count: number; expiresAt: number }> = new Map();
+    private prunedAt = 0;
+
+    async increment(key: string, amount: number, expiresAt: number): Promise<number> {
+        this.prune();
+        const counter = this.counters.get(key) ?? { count: 0, expiresAt };
+        counter.count += amount;
+        this.counters.set(key, counter);
+        return counter.count;
+    }
+
+    async get(key: string): Promise<number> {
+        const counter = this.counters.get(key);
+        return counter && counter.expiresAt > Date.now() ? counter.count : 0;
+    }
+
+    private prune(): void {
+        const now = Date.now();
+        if (now - this.prunedAt < PRUNE_INTERVAL_MS) {
+            return;
+        }
+        this.prunedAt = now;
+        for (const [key, counter] of this.counters) {
+            if (counter.expiresAt <= now) {
+                this.counters.delete(key);
+            }
+        }
+    }
+}
+
+/**
+ * Keeps counters in the `rate_limit_counters` table, so limits survive restarts and are shared
+ * by every instance using the same database file.
+ */
+export class SqliteRateLimitStore implements RateLimitStore {
+    private db: Database;
+    private prunedAt = 0;
+
+    constructor(db: Database) {
+        this.db = db;
+    }
+
+    async increment(key: string, amount: number, expiresAt: number): Promise<number> {
+        await this.prune();
+        return this.db.transaction(async (tx) => {
+            await tx.run(
+                `INSERT INTO rate_limit_counters (key, count, expiresAt) VALUES (?, ?, ?)
+                ON CONFLICT (key) DO UPDATE SET count = count + excluded.count`,
+                [key, amount, expiresAt]
+            );
+            const row = await tx.get<{ count: number }>('SELECT count FROM rate_limit_counters WHERE key = ?', [key]);
+            return row.count;
+        });
+    }
+
+    async get(key: string): Promise<number> {
+        const row = await this.db.get<{ count: number }>(
+            'SELECT count FROM rate_limit_counters WHERE key = ? AND expiresAt > ?',
+            [key, Date.now()]
+        );
+        return row?.count ?? 0;
+    }
+
+    private async prune(): Promise<void> {
+        const now = Date.now();
+        if (now - this.prunedAt < PRUNE_INTERVAL_MS) {
+            return;
+        }
+        this.prunedAt = now;
+        await this.db.run('DELETE FROM rate_limit_counters WHERE expiresAt <= ?', [now]);
+    }
+}
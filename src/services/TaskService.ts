@@ -1,126 +1,1319 @@
-import sqlite3 from 'sqlite3';
-import { TaskItem } from '../types';
+import { EventEmitter } from 'events';
+import { Database, SqlExecutor } from '../database/Database';
+import { DEFAULT_LIST_ID, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from '../schemas/tasks';
+import { ConflictError, ValidationError } from '../errors';
+import {
+    ActionableTasksQuery,
+    AddSubtasksInput,
+    CreateTaskInput,
+    CreateTaskListInput,
+    TaskImportOptions,
+    TaskImportResult,
+    TaskBatchOperation,
+    TaskBatchOutcome,
+    TaskBatchResult,
+    TaskChangeEvent,
+    TaskChangeType,
+    TaskFilter,
+    TaskItem,
+    TaskList,
+    TaskListDeletePolicy,
+    TaskPage,
+    TaskQuery,
+    TaskActor,
+    TaskSortField,
+    TaskTreeNode,
+    UndoOutcome,
+    UpdateTaskInput,
+    UpdateTaskListInput
+} from '../types';
+
+
+/**
+ * Most changes replayed to a client resuming the change feed; clients further behind reload instead.
+ */
+export const MAX_REPLAYED_CHANGES = 1000;
+
+/**
+ * Actor recorded for changes made without naming one.
+ */
+export const SYSTEM_ACTOR: TaskActor = { type: 'system' };
+
+/**
+ * Owner of the tasks created before tasks had owners, and of those created while authentication
+ * is disabled.
+ */
+export const DEFAULT_OWNER_ID = 'local';
+
+/**
+ * SQL expressions used for each sortable field. Priority sorts by rank rather than alphabetically.
+ */
+const SORT_EXPRESSIONS: Record<TaskSortField, string> = {
+    id: 'id',
+    title: 'title COLLATE NOCASE',
+    dueDate: 'dueDate',
+    priority: `CASE priority WHEN 'high' THEN 3 WHEN 'medium' THEN 2 ELSE 1 END`,
+    createdAt: 'createdAt',
+    updatedAt: 'updatedAt'
+};
+
+/**
+ * Selects task lists with the number of tasks, and of open tasks, of one owner in each. The
+ * owner is the first parameter.
+ */
+const SELECT_LISTS = `SELECT task_lists.*, COUNT(tasks.id) AS taskCount, COALESCE(SUM(tasks.isComplete = 0), 0) AS openTaskCount
+    FROM task_lists LEFT JOIN tasks ON tasks.listId = task_lists.id AND tasks.ownerId = ?`;
+
+/**
+ * Matches the lists an owner can see: their own and the shared Inbox list, which has no owner.
+ * The owner is the only parameter.
+ */
+const VISIBLE_LIST = '(task_lists.ownerId = ? OR task_lists.ownerId IS NULL)';
+
+/**
+ * Orders actionable tasks: the most urgent first, then the oldest.
+ */
+const ACTIONABLE_ORDER = `${SORT_EXPRESSIONS.priority} DESC, dueDate IS NULL, dueDate, id`;
+
+/**
+ * Thrown inside a batch transaction to roll it back, naming the operation that could not be applied.
+ */
+class BatchFailure extends Error {
+    constructor(readonly index: number, reason: string) {
+        super(reason);
+    }
+}
+
+/**
+ * Finds a chain of "blocked by" dependencies leading from one task to another.
+ *
+ * @param dependencies - The IDs of the tasks blocking each task, by task ID.
+ * @returns The IDs along the shortest chain, `from` and `to` included, or null when there is none.
+ */
+function findDependencyPath(dependencies: Map<number, number[]>, from: number, to: number): number[] | null {
+    const previous = new Map<number, number | null>([[from, null]]);
+    const queue = [from];
+    while (queue.length > 0) {
+        const id = queue.shift();
+        if (id === to) {
+            const path: number[] = [];
+            for (let step: number | null = id; step !== null; step = previous.get(step)) {
+                path.unshift(step);
+            }
+            return path;
+        }
+        for (const next of dependencies.get(id) ?? []) {
+            if (!previous.has(next)) {
+                previous.set(next, id);
+                queue.push(next);
+            }
+        }
+    }
+    return null;
+}
 
 /**
  * Service class for managing tasks with CRUD operations.
  * This service provides all the necessary operations for task management.
+ *
+ * The schema is owned by the migrations in `src/database/migrations.ts`; add a migration there
+ * whenever a column is added to `TaskItem`.
+ *
+ * Every change is recorded in the `task_events` table in the same transaction as the change
+ * itself, with the task before and after and the actor who made it, then published to
+ * `onChange` listeners once committed. The recorded changes form the tasks' audit trail.
+ *
+ * Every task belongs to a task list; tasks that name none go to the Inbox list. Moving a task to
+ * another list is an update like any other, and is recorded as such.
+ *
+ * Tasks can have subtasks and be blocked by other tasks. Changes to one task carry over to the
+ * tasks related to it, in the same transaction, each recorded as a change of its own:
+ * - Subtasks follow their parent into another list, and are completed with it.
+ * - A parent task is completed once all its subtasks are, and reopened when one of them is
+ *   reopened or an open subtask is added.
+ * - Deleting a task deletes its subtasks, and removes it from the tasks it was blocking.
+ * Relations that would form a cycle are rejected.
+ *
+ * Tasks, their recorded changes and task lists belong to an owner, the user who created them.
+ * An instance only sees and changes the tasks of its owner, so tasks of other owners are reported
+ * as not found; `forOwner` returns the instance of another owner. Tasks can only be related to
+ * tasks of the same owner. The Inbox list is shared: every owner keeps their own tasks in it, and
+ * nobody can rename or delete it.
  */
 export class TaskService {
-    private db: sqlite3.Database;
+    private db: Database;
+    private ownerId: string;
+    private changes = new EventEmitter();
 
-    constructor() {
-        this.db = new sqlite3.Database(':memory:'); // In-memory database
-        this.initializeDatabase();
+    /**
+     * @param ownerId - Owner of the tasks the instance works on.
+     */
+    constructor(db: Database, ownerId: string = DEFAULT_OWNER_ID) {
+        this.db = db;
+        this.ownerId = ownerId;
+        // One listener per open change feed
+        this.changes.setMaxListeners(0);
     }
 
-    private initializeDatabase(): void {
-        const createTableSQL = `
-            CREATE TABLE IF NOT EXISTS tasks (
-                id INTEGER PRIMARY KEY AUTOINCREMENT,
-                title TEXT NOT NULL,
-                isComplete BOOLEAN DEFAULT 0
-            )
-        `;
-        
-        this.db.run(createTableSQL, (err) => {
-            if (err) {
-                console.error('Error creating tasks table:', err);
-            } else {
-                console.log('Tasks table initialized');
+    /**
+     * Returns a service working on the tasks of `ownerId`, publishing its changes to the same
+     * listeners as this one, which only hear about the changes of the owner they subscribed for.
+     */
+    forOwner(ownerId: string): TaskService {
+        const scoped = new TaskService(this.db, ownerId);
+        scoped.changes = this.changes;
+        return scoped;
+    }
+
+    /**
+     * Calls `listener` after each committed change of the owner's tasks.
+     *
+     * @returns A function that removes the listener.
+     */
+    onChange(listener: (event: TaskChangeEvent) => void): () => void {
+        const channel = this.changeChannel();
+        this.changes.on(channel, listener);
+        return () => {
+            this.changes.off(channel, listener);
+        };
+    }
+
+    /**
+     * ID of the latest recorded change, or 0 when there is none.
+     */
+    async getLatestChangeId(): Promise<number> {
+        const row = await this.db.get('SELECT MAX(id) AS id FROM task_events WHERE ownerId = ?', [this.ownerId]);
+        return row?.id ?? 0;
+    }
+
+    /**
+     * Returns the changes recorded after `lastEventId`, oldest first.
+     *
+     * @returns The changes, or null when there are more than `MAX_REPLAYED_CHANGES` of them or
+     * `lastEventId` is unknown, in which case the client has to reload the task list.
+     */
+    async getChangesSince(lastEventId: number): Promise<TaskChangeEvent[] | null> {
+        if (lastEventId > await this.getLatestChangeId()) {
+            return null;
+        }
+        const rows = await this.db.all(
+            'SELECT * FROM task_events WHERE ownerId = ? AND id > ? ORDER BY id LIMIT ?',
+            [this.ownerId, lastEventId, MAX_REPLAYED_CHANGES + 1]
+        );
+        if (rows.length > MAX_REPLAYED_CHANGES) {
+            return null;
+        }
+        return rows.map(row => this.toChangeEvent(row));
+    }
+
+    /**
+     * Returns the recorded changes of a task, oldest first, including its deletion.
+     */
+    async getTaskHistory(taskId: number): Promise<TaskChangeEvent[]> {
+        const rows = await this.db.all('SELECT * FROM task_events WHERE ownerId = ? AND taskId = ? ORDER BY id', [this.ownerId, taskId]);
+        return rows.map(row => this.toChangeEvent(row));
+    }
+
+    /**
+     * Returns the latest change made by an agent in a chat session that has not been undone,
+     * skipping changes that were themselves undos, or null when there is none.
+     */
+    async getLastAgentChange(agentId: string, sessionId: string | undefined): Promise<TaskChangeEvent | null> {
+        const row = await this.db.get(
+            `SELECT * FROM task_events AS change
+             WHERE ownerId = ? AND actorType = 'agent' AND actorAgentId = ? AND actorSessionId IS ? AND revertsEventId IS NULL
+                AND NOT EXISTS (SELECT 1 FROM task_events AS undo WHERE undo.revertsEventId = change.id)
+             ORDER BY id DESC
+             LIMIT 1`,
+            [this.ownerId, agentId, sessionId ?? null]
+        );
+        return row ? this.toChangeEvent(row) : null;
+    }
+
+    /**
+     * Returns every task matching `filter`, ordered by ID, without paging.
+     */
+    async getAllTasks(filter: TaskFilter = {}): Promise<TaskItem[]> {
+        return this.selectMatching(this.db, filter);
+    }
+
+    /**
+     * Lists tasks matching the given filters, one page at a time.
+     *
+     * @param query - Filters, sort order and page window. Defaults to the first
+     * `DEFAULT_PAGE_SIZE` tasks ordered by ID.
+     * @returns The requested page and the total number of matching tasks.
+     */
+    async queryTasks(query: TaskQuery = {}): Promise<TaskPage> {
+        const { where, params } = this.buildFilter(query);
+        const sortBy = query.sortBy ?? 'id';
+        const direction = query.sortOrder === 'desc' ? 'DESC' : 'ASC';
+        // Tasks without a due date sort last in either direction
+        const nullsLast = sortBy === 'dueDate' ? 'dueDate IS NULL, ' : '';
+        const orderBy = `${nullsLast}${SORT_EXPRESSIONS[sortBy]} ${direction}, id ${direction}`;
+        const limit = Math.min(Math.max(query.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+        const offset = Math.max(query.offset ?? 0, 0);
+
+        const countRow = await this.db.get(`SELECT COUNT(*) AS total FROM tasks WHERE ${where}`, params);
+        const rows = await this.db.all(
+            `SELECT * FROM tasks WHERE ${where} ORDER BY ${orderBy} LIMIT ? OFFSET ?`,
+            [...params, limit, offset]
+        );
+        return {
+            tasks: rows.map(row => this.toTaskItem(row)),
+            total: countRow.total,
+            limit,
+            offset
+        };
+    }
+
+    /**
+     * Lists the owner's task lists, the Inbox first and the others by name.
+     */
+    async getLists(): Promise<TaskList[]> {
+        const rows = await this.db.all(
+            `${SELECT_LISTS} WHERE ${VISIBLE_LIST}
+             GROUP BY task_lists.id ORDER BY task_lists.id <> ${DEFAULT_LIST_ID}, task_lists.name`,
+            [this.ownerId, this.ownerId]
+        );
+        return rows.map(row => this.toTaskList(row));
+    }
+
+    async getListById(id: number): Promise<TaskList | null> {
+        const row = await this.db.get(
+            `${SELECT_LISTS} WHERE task_lists.id = ? AND ${VISIBLE_LIST} GROUP BY task_lists.id`,
+            [this.ownerId, id, this.ownerId]
+        );
+        return row ? this.toTaskList(row) : null;
+    }
+
+    /**
+     * @throws ConflictError when another list of the owner, or the Inbox list, has the same name,
+     * ignoring case.
+     */
+    async createList(input: CreateTaskListInput): Promise<TaskList> {
+        const id = await this.db.transaction(async (tx) => {
+            await this.checkListName(tx, input.name);
+            const now = new Date().toISOString();
+            const result = await tx.run(
+                'INSERT INTO task_lists (ownerId, name, description, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?)',
+                [this.ownerId, input.name, input.description ?? null, now, now]
+            );
+            return result.lastID;
+        });
+        return this.getListById(id);
+    }
+
+    /**
+     * Renames a list or changes its description.
+     *
+     * @returns The updated list, or null when the owner has no list with that ID.
+     * @throws ConflictError when another list has the new name, ignoring case, and for the shared
+     * Inbox list, which cannot be changed.
+     */
+    async updateList(id: number, changes: UpdateTaskListInput): Promise<TaskList | null> {
+        if (id === DEFAULT_LIST_ID) {
+            throw new ConflictError('The Inbox list is shared by all users and cannot be changed');
+        }
+        const found = await this.db.transaction(async (tx) => {
+            const row = await tx.get('SELECT * FROM task_lists WHERE id = ? AND ownerId = ?', [id, this.ownerId]);
+            if (!row) {
+                return false;
+            }
+            if (changes.name) {
+                await this.checkListName(tx, changes.name, id);
             }
+            await tx.run(
+                'UPDATE task_lists SET name = ?, description = ?, updatedAt = ? WHERE id = ?',
+                [
+                    changes.name ?? row.name,
+                    typeof changes.description !== 'undefined' ? changes.description : row.description,
+                    new Date().toISOString(),
+                    id
+                ]
+            );
+            return true;
         });
+        return found ? this.getListById(id) : null;
     }
 
-    async getAllTasks(): Promise<TaskItem[]> {
-        return new Promise((resolve, reject) => {
-            this.db.all('SELECT * FROM tasks ORDER BY id', (err, rows: any[]) => {
-                if (err) {
-                    reject(err);
-                } else {
-                    resolve(rows.map(row => ({
-                        id: row.id,
-                        title: row.title,
-                        isComplete: !!row.isComplete
-                    })));
+    /**
+     * Deletes a list, moving its tasks to the Inbox list or deleting them with it, in a single
+     * transaction. Each moved or deleted task is recorded as a change of its own.
+     *
+     * @returns The tasks moved or deleted, as they were before, or null when the owner has no list
+     * with that ID.
+     * @throws ConflictError for the Inbox list, which cannot be deleted.
+     */
+    async deleteList(id: number, policy: TaskListDeletePolicy, actor: TaskActor = SYSTEM_ACTOR): Promise<TaskItem[] | null> {
+        if (id === DEFAULT_LIST_ID) {
+            throw new ConflictError('The Inbox list cannot be deleted');
+        }
+        const related: TaskChangeEvent[] = [];
+        const events = await this.db.transaction(async (tx) => {
+            const row = await tx.get('SELECT id FROM task_lists WHERE id = ? AND ownerId = ?', [id, this.ownerId]);
+            if (!row) {
+                return null;
+            }
+            const applied: TaskChangeEvent[] = [];
+            for (const { id: taskId } of await this.selectMatching(tx, { listId: id })) {
+                // Subtasks may have been moved or deleted with their parent already
+                const task = await this.findIn(tx, taskId);
+                if (!task || task.listId !== id) {
+                    continue;
                 }
-            });
+                applied.push(policy === 'delete'
+                    ? await this.deleteIn(tx, task, actor, related)
+                    : await this.updateIn(tx, task, { listId: DEFAULT_LIST_ID }, actor, related));
+            }
+            await tx.run('DELETE FROM task_lists WHERE id = ?', [id]);
+            return applied;
+        });
+        if (!events) {
+            return null;
+        }
+        this.publishChanges([...events, ...related]);
+        return events.map((event) => event.before);
+    }
+
+    /**
+     * Moves tasks into a list, in a single transaction. Tasks already in the list and IDs of
+     * tasks that do not exist are skipped.
+     *
+     * @returns The moved tasks, ordered by ID, or null when the list does not exist or belongs to
+     * another owner.
+     */
+    async moveTasks(ids: number[], listId: number, actor: TaskActor = SYSTEM_ACTOR): Promise<TaskItem[] | null> {
+        const related: TaskChangeEvent[] = [];
+        const events = await this.db.transaction(async (tx) => {
+            if (!await this.findListIn(tx, listId)) {
+                return null;
+            }
+            const moved: TaskChangeEvent[] = [];
+            for (const id of ids) {
+                // Subtasks of a task moved earlier have followed it already
+                const task = await this.findIn(tx, id);
+                if (task && task.listId !== listId) {
+                    moved.push(await this.updateIn(tx, task, { listId }, actor, related));
+                }
+            }
+            return moved;
         });
+        if (!events) {
+            return null;
+        }
+        this.publishChanges([...events, ...related]);
+        return events.map((event) => event.task).sort((a, b) => a.id - b.id);
+    }
+
+    /**
+     * Returns a task with its subtasks, and theirs.
+     *
+     * @returns The tree, or null when the task does not exist.
+     */
+    async getTaskTree(id: number): Promise<TaskTreeNode | null> {
+        const rows = await this.db.all(
+            `WITH RECURSIVE subtree(id) AS (
+                SELECT id FROM tasks WHERE id = ? AND ownerId = ?
+                UNION SELECT tasks.id FROM tasks JOIN subtree ON tasks.parentId = subtree.id
+            )
+            SELECT tasks.* FROM tasks JOIN subtree ON tasks.id = subtree.id ORDER BY tasks.id`,
+            [id, this.ownerId]
+        );
+        const trees = this.buildTrees(rows.map(row => this.toTaskItem(row)), await this.getOpenTaskIds());
+        return trees.find((tree) => tree.id === id) ?? null;
+    }
+
+    /**
+     * Returns the tasks matching `filter` as trees: each task whose parent does not match is the
+     * root of a tree holding its matching subtasks.
+     */
+    async getTaskTrees(filter: TaskFilter = {}): Promise<TaskTreeNode[]> {
+        return this.buildTrees(await this.selectMatching(this.db, filter), await this.getOpenTaskIds());
+    }
+
+    /**
+     * Lists the tasks that can be worked on now: open tasks matching the filters that are not
+     * blocked by an open task and have no open subtasks, the most urgent first.
+     */
+    async getActionableTasks(query: ActionableTasksQuery = {}): Promise<TaskItem[]> {
+        const { limit, ...filter } = query;
+        const { where, params } = this.buildFilter({ ...filter, isComplete: false });
+        const rows = await this.db.all(
+            `SELECT * FROM tasks WHERE ${where}
+                AND NOT EXISTS (SELECT 1 FROM tasks AS subtask WHERE subtask.parentId = tasks.id AND subtask.isComplete = 0)
+                AND NOT EXISTS (
+                    SELECT 1 FROM json_each(tasks.blockedBy) JOIN tasks AS blocker ON blocker.id = json_each.value
+                    WHERE blocker.isComplete = 0
+                )
+             ORDER BY ${ACTIONABLE_ORDER} LIMIT ?`,
+            [...params, Math.min(Math.max(limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE)]
+        );
+        return rows.map(row => this.toTaskItem(row));
+    }
+
+    /**
+     * Adds subtasks to a task in a single transaction, in the list of the task unless they name
+     * another. With `sequential`, each subtask is blocked by the one before it.
+     *
+     * @returns The new subtasks, in order, or null when the task does not exist.
+     */
+    async addSubtasks(parentId: number, input: AddSubtasksInput, actor: TaskActor = SYSTEM_ACTOR): Promise<TaskItem[] | null> {
+        const related: TaskChangeEvent[] = [];
+        const events = await this.db.transaction(async (tx) => {
+            if (!await this.findIn(tx, parentId)) {
+                return null;
+            }
+            const created: TaskChangeEvent[] = [];
+            for (const subtask of input.subtasks) {
+                const previous = created[created.length - 1];
+                const blockedBy = input.sequential && previous
+                    ? [...(subtask.blockedBy ?? []), previous.task.id]
+                    : subtask.blockedBy;
+                created.push(await this.createIn(tx, { ...subtask, parentId, blockedBy }, actor, related));
+            }
+            return created;
+        });
+        if (!events) {
+            return null;
+        }
+        this.publishChanges([...events, ...related]);
+        return events.map((event) => event.task);
     }
 
     async getTaskById(id: number): Promise<TaskItem | null> {
-        return new Promise((resolve, reject) => {
-            this.db.get('SELECT * FROM tasks WHERE id = ?', [id], (err, row: any) => {
-                if (err) {
-                    reject(err);
-                } else if (row) {
-                    resolve({
-                        id: row.id,
-                        title: row.title,
-                        isComplete: !!row.isComplete
-                    });
-                } else {
-                    resolve(null);
+        return this.findIn(this.db, id);
+    }
+
+    async addTask(input: CreateTaskInput, actor: TaskActor = SYSTEM_ACTOR): Promise<TaskItem> {
+        const related: TaskChangeEvent[] = [];
+        const event = await this.db.transaction((tx) => this.createIn(tx, input, actor, related));
+        this.publishChanges([event, ...related]);
+        return event.task;
+    }
+
+    /**
+     * Creates several tasks in a single transaction.
+     *
+     * @returns The new tasks, in the order of `inputs`.
+     */
+    async addTasks(inputs: CreateTaskInput[], actor: TaskActor = SYSTEM_ACTOR): Promise<TaskItem[]> {
+        const related: TaskChangeEvent[] = [];
+        const events = await this.db.transaction(async (tx) => {
+            const created: TaskChangeEvent[] = [];
+            for (const input of inputs) {
+                created.push(await this.createIn(tx, input, actor, related));
+            }
+            return created;
+        });
+        this.publishChanges([...events, ...related]);
+        return events.map((event) => event.task);
+    }
+
+    async updateTask(id: number, changes: UpdateTaskInput, actor: TaskActor = SYSTEM_ACTOR): Promise<boolean> {
+        const related: TaskChangeEvent[] = [];
+        const event = await this.db.transaction(async (tx) => {
+            // Fetch current task to preserve existing values
+            const task = await this.findIn(tx, id);
+            return task ? this.updateIn(tx, task, changes, actor, related) : null;
+        });
+        if (!event) {
+            return false;
+        }
+        this.publishChanges([event, ...related]);
+        return true;
+    }
+
+    async deleteTask(id: number, actor: TaskActor = SYSTEM_ACTOR): Promise<boolean> {
+        const related: TaskChangeEvent[] = [];
+        const event = await this.db.transaction(async (tx) => {
+            const task = await this.findIn(tx, id);
+            return task ? this.deleteIn(tx, task, actor, related) : null;
+        });
+        if (!event) {
+            return false;
+        }
+        this.publishChanges([event, ...related]);
+        return true;
+    }
+
+    /**
+     * Applies creates, updates and deletes in order, in a single transaction: either all of them
+     * take effect or, when one refers to a task that does not exist, none do.
+     * Each operation is recorded as a change of its own.
+     */
+    async applyBatch(operations: TaskBatchOperation[], actor: TaskActor = SYSTEM_ACTOR): Promise<TaskBatchOutcome> {
+        const related: TaskChangeEvent[] = [];
+        let events: TaskChangeEvent[];
+        try {
+            events = await this.db.transaction(async (tx) => {
+                const applied: TaskChangeEvent[] = [];
+                for (const [index, operation] of operations.entries()) {
+                    if (operation.op === 'create') {
+                        applied.push(await this.createIn(tx, operation.task, actor, related));
+                        continue;
+                    }
+                    const task = await this.findIn(tx, operation.id);
+                    if (!task) {
+                        throw new BatchFailure(index, `Task ${operation.id} not found`);
+                    }
+                    applied.push(operation.op === 'update'
+                        ? await this.updateIn(tx, task, operation.changes, actor, related)
+                        : await this.deleteIn(tx, task, actor, related));
                 }
+                return applied;
             });
+        } catch (error) {
+            if (error instanceof BatchFailure) {
+                return { status: 'failed', index: error.index, reason: error.message };
+            }
+            throw error;
+        }
+        this.publishChanges([...events, ...related]);
+        const results = operations.map((operation, index): TaskBatchResult => {
+            switch (operation.op) {
+                case 'create':
+                    return { op: 'create', task: events[index].task };
+                case 'update':
+                    return { op: 'update', task: events[index].task };
+                case 'delete':
+                    return { op: 'delete', id: operation.id };
+            }
         });
+        return { status: 'applied', results };
     }
 
-    async addTask(title: string, isComplete: boolean = false): Promise<TaskItem> {
-        return new Promise((resolve, reject) => {
-            this.db.run(
-                'INSERT INTO tasks (title, isComplete) VALUES (?, ?)', 
-                [title, isComplete ? 1 : 0], 
-                function(err) {
-                    if (err) {
-                        reject(err);
-                    } else {
-                        resolve({
-                            id: this.lastID,
-                            title: title,
-                            isComplete: isComplete
-                        });
+    /**
+     * Creates the given tasks in a single transaction, handling tasks whose title matches an
+     * existing or earlier imported task, ignoring case, according to `options.duplicates`.
+     * With `options.dryRun`, reports what would happen without changing anything.
+     */
+    async importTasks(inputs: CreateTaskInput[], options: TaskImportOptions, actor: TaskActor = SYSTEM_ACTOR): Promise<TaskImportResult> {
+        const result: TaskImportResult = { dryRun: options.dryRun, created: 0, updated: 0, skipped: 0, items: [] };
+        const related: TaskChangeEvent[] = [];
+        const events = await this.db.transaction(async (tx) => {
+            const applied: TaskChangeEvent[] = [];
+            // Task ID per lowercase title; null for tasks a dry run would create
+            const idsByTitle = new Map<string, number | null>();
+            for (const task of await this.selectMatching(tx, {})) {
+                idsByTitle.set(task.title.toLowerCase(), task.id);
+            }
+
+            for (const input of inputs) {
+                const key = input.title.toLowerCase();
+                if (options.duplicates !== 'create' && idsByTitle.has(key)) {
+                    const taskId = idsByTitle.get(key) ?? undefined;
+                    if (options.duplicates === 'skip') {
+                        result.skipped++;
+                        result.items.push({ title: input.title, action: 'skip', taskId });
+                        continue;
+                    }
+                    result.updated++;
+                    result.items.push({ title: input.title, action: 'update', taskId });
+                    if (!options.dryRun) {
+                        applied.push(await this.updateIn(tx, await this.findIn(tx, taskId), input, actor, related));
                     }
+                    continue;
                 }
-            );
+                result.created++;
+                if (options.dryRun) {
+                    idsByTitle.set(key, null);
+                    result.items.push({ title: input.title, action: 'create' });
+                    continue;
+                }
+                const event = await this.createIn(tx, input, actor, related);
+                applied.push(event);
+                idsByTitle.set(key, event.task.id);
+                result.items.push({ title: input.title, action: 'create', taskId: event.task.id });
+            }
+            return applied;
         });
+        this.publishChanges([...events, ...related]);
+        return result;
     }
 
-    async updateTask(id: number, title?: string, isComplete?: boolean): Promise<boolean> {
-        // Fetch current task to preserve existing values
-        const currentTask = await this.getTaskById(id);
-        if (!currentTask) {
-            return false;
-        }
-        const updatedTitle = typeof title !== 'undefined' ? title : currentTask.title;
-        const updatedComplete = typeof isComplete !== 'undefined' ? isComplete : currentTask.isComplete;
-        return new Promise((resolve, reject) => {
-            this.db.run(
-                'UPDATE tasks SET title = ?, isComplete = ? WHERE id = ?',
-                [updatedTitle, updatedComplete ? 1 : 0, id],
-                function(err) {
-                    if (err) {
-                        reject(err);
-                    } else {
-                        resolve(this.changes > 0);
-                    }
+    /**
+     * Applies the same changes to every task matching `filter`, in a single transaction.
+     *
+     * @returns The updated tasks, ordered by ID.
+     */
+    async updateMatching(filter: TaskFilter, changes: UpdateTaskInput, actor: TaskActor = SYSTEM_ACTOR): Promise<TaskItem[]> {
+        const related: TaskChangeEvent[] = [];
+        const events = await this.db.transaction(async (tx) => {
+            const updated: TaskChangeEvent[] = [];
+            for (const { id } of await this.selectMatching(tx, filter)) {
+                // Read again, as updating an earlier task may have changed its subtasks or parent
+                updated.push(await this.updateIn(tx, await this.findIn(tx, id), changes, actor, related));
+            }
+            return updated;
+        });
+        this.publishChanges([...events, ...related]);
+        return events.map((event) => event.task);
+    }
+
+    /**
+     * Deletes every task matching `filter`, in a single transaction.
+     *
+     * @returns The deleted tasks, ordered by ID.
+     */
+    async deleteMatching(filter: TaskFilter, actor: TaskActor = SYSTEM_ACTOR): Promise<TaskItem[]> {
+        const related: TaskChangeEvent[] = [];
+        const events = await this.db.transaction(async (tx) => {
+            const deleted: TaskChangeEvent[] = [];
+            for (const { id } of await this.selectMatching(tx, filter)) {
+                // Subtasks of a task deleted earlier are gone already
+                const task = await this.findIn(tx, id);
+                if (task) {
+                    deleted.push(await this.deleteIn(tx, task, actor, related));
                 }
-            );
+            }
+            return deleted;
         });
+        this.publishChanges([...events, ...related]);
+        return events.map((event) => event.before);
     }
 
-    async deleteTask(id: number): Promise<boolean> {
-        return new Promise((resolve, reject) => {
-            this.db.run('DELETE FROM tasks WHERE id = ?', [id], function(err) {
-                if (err) {
-                    reject(err);
-                } else {
-                    resolve(this.changes > 0);
+    /**
+     * Reverts a recorded change: a created task is deleted, an update is rolled back to the
+     * previous values and a deleted task is restored under its old ID. The undo is recorded as
+     * a change of its own, made by `actor`.
+     *
+     * A change can only be undone while the task is still as that change left it, so an undo
+     * never discards later work. Undoing changes one after another walks back through the history.
+     * A task restored into a list that has been deleted since goes to the Inbox list; relations to
+     * tasks that have been deleted since, or that would now form a cycle, are dropped. The creation
+     * of a task that has gained subtasks or blocks other tasks cannot be undone.
+     */
+    async undoChange(eventId: number, actor: TaskActor = SYSTEM_ACTOR): Promise<UndoOutcome> {
+        const related: TaskChangeEvent[] = [];
+        const outcome = await this.db.transaction(async (tx): Promise<UndoOutcome> => {
+            const row = await tx.get('SELECT * FROM task_events WHERE id = ? AND ownerId = ?', [eventId, this.ownerId]);
+            if (!row) {
+                return { status: 'not_found' };
+            }
+            const change = this.toChangeEvent(row);
+            const current = await this.findIn(tx, change.taskId);
+            const unchanged = change.task
+                ? current !== null && this.hasSameContent(current, change.task)
+                : current === null;
+            if (!unchanged) {
+                return {
+                    status: 'conflict',
+                    reason: `Task ${change.taskId} has changed since change ${change.id}, and undoing it would discard those changes`
+                };
+            }
+
+            let event: TaskChangeEvent;
+            if (change.type === 'created') {
+                const subtasks = await this.selectMatching(tx, { parentId: change.taskId });
+                const dependents = await this.selectDependents(tx, change.taskId);
+                if (subtasks.length > 0 || dependents.length > 0) {
+                    return {
+                        status: 'conflict',
+                        reason: `Task ${change.taskId} has subtasks or blocks other tasks, which undoing its creation would leave behind`
+                    };
                 }
-            });
+                await tx.run('DELETE FROM tasks WHERE id = ?', [change.taskId]);
+                event = await this.recordChange(tx, 'deleted', change.task, null, actor, change.id);
+            } else if (change.type === 'updated') {
+                const restored = {
+                    ...change.before,
+                    ...await this.restorableRelations(tx, change.before),
+                    updatedAt: new Date().toISOString()
+                };
+                await this.writeTask(tx, restored);
+                event = await this.recordChange(tx, 'updated', change.task, restored, actor, change.id);
+            } else {
+                const restored = { ...change.before, ...await this.restorableRelations(tx, change.before) };
+                await this.insertTask(tx, restored);
+                event = await this.recordChange(tx, 'created', null, restored, actor, change.id);
+            }
+            // Bring the completion of the parent tasks the change affects up to date
+            const parentIds = new Set([event.before?.parentId, event.task?.parentId]);
+            for (const parentId of parentIds) {
+                if (typeof parentId === 'number') {
+                    await this.rollUp(tx, parentId, actor, related);
+                }
+            }
+            return { status: 'undone', event };
         });
+        if (outcome.status === 'undone') {
+            this.publishChanges([outcome.event, ...related]);
+        }
+        return outcome;
+    }
+
+    /**
+     * Translates a filter into the conditions of a `WHERE` clause, which always select the owner's
+     * tasks.
+     */
+    private buildFilter(filter: TaskFilter): { where: string; params: any[] } {
+        const conditions: string[] = ['ownerId = ?'];
+        const params: any[] = [this.ownerId];
+
+        if (filter.ids) {
+            conditions.push(filter.ids.length > 0 ? `id IN (${filter.ids.map(() => '?').join(', ')})` : '0');
+            params.push(...filter.ids);
+        }
+        if (typeof filter.isComplete === 'boolean') {
+            conditions.push('isComplete = ?');
+            params.push(filter.isComplete ? 1 : 0);
+        }
+        if (filter.search) {
+            conditions.push(`title LIKE ? ESCAPE '\\'`);
+            params.push(`%${filter.search.replace(/[\\%_]/g, (c) => `\\${c}`)}%`);
+        }
+        if (filter.priority) {
+            conditions.push('priority = ?');
+            params.push(filter.priority);
+        }
+        if (filter.tag) {
+            conditions.push('EXISTS (SELECT 1 FROM json_each(tasks.tags) WHERE json_each.value = ?)');
+            params.push(filter.tag);
+        }
+        if (typeof filter.listId === 'number') {
+            conditions.push('listId = ?');
+            params.push(filter.listId);
+        }
+        if (typeof filter.parentId === 'number') {
+            conditions.push('parentId = ?');
+            params.push(filter.parentId);
+        }
+
+        return { where: conditions.join(' AND '), params };
+    }
+
+    private async selectMatching(tx: SqlExecutor, filter: TaskFilter): Promise<TaskItem[]> {
+        const { where, params } = this.buildFilter(filter);
+        const rows = await tx.all(`SELECT * FROM tasks WHERE ${where} ORDER BY id`, params);
+        return rows.map(row => this.toTaskItem(row));
+    }
+
+    private async findIn(tx: SqlExecutor, id: number): Promise<TaskItem | null> {
+        const row = await tx.get('SELECT * FROM tasks WHERE id = ? AND ownerId = ?', [id, this.ownerId]);
+        return row ? this.toTaskItem(row) : null;
+    }
+
+    /**
+     * Finds a list the owner can see: one of their own, or the Inbox list.
+     */
+    private async findListIn(tx: SqlExecutor, id: number): Promise<{ id: number } | undefined> {
+        return tx.get(`SELECT id FROM task_lists WHERE id = ? AND ${VISIBLE_LIST}`, [id, this.ownerId]);
+    }
+
+    /**
+     * Returns the tasks blocked by a task, ordered by ID.
+     */
+    private async selectDependents(tx: SqlExecutor, taskId: number): Promise<TaskItem[]> {
+        const rows = await tx.all(
+            'SELECT * FROM tasks WHERE ownerId = ? AND EXISTS (SELECT 1 FROM json_each(tasks.blockedBy) WHERE json_each.value = ?) ORDER BY id',
+            [this.ownerId, taskId]
+        );
+        return rows.map(row => this.toTaskItem(row));
+    }
+
+    private async getOpenTaskIds(): Promise<Set<number>> {
+        const rows = await this.db.all('SELECT id FROM tasks WHERE ownerId = ? AND isComplete = 0', [this.ownerId]);
+        return new Set(rows.map(row => row.id));
+    }
+
+    /**
+     * Arranges tasks into trees under the tasks whose parent is not among them.
+     *
+     * @param openTaskIds - IDs of every open task, to tell which tasks are blocked.
+     */
+    private buildTrees(tasks: TaskItem[], openTaskIds: Set<number>): TaskTreeNode[] {
+        const ids = new Set(tasks.map(task => task.id));
+        const subtasksByParent = new Map<number, TaskItem[]>();
+        const roots: TaskItem[] = [];
+        for (const task of tasks) {
+            if (task.parentId !== null && ids.has(task.parentId)) {
+                subtasksByParent.set(task.parentId, [...(subtasksByParent.get(task.parentId) ?? []), task]);
+            } else {
+                roots.push(task);
+            }
+        }
+        const toNode = (task: TaskItem): TaskTreeNode => {
+            const subtasks = (subtasksByParent.get(task.id) ?? []).map(toNode);
+            return {
+                ...task,
+                isBlocked: task.blockedBy.some(id => openTaskIds.has(id)),
+                progress: { completed: subtasks.filter(subtask => subtask.isComplete).length, total: subtasks.length },
+                subtasks
+            };
+        };
+        return roots.map(toNode);
+    }
+
+    /**
+     * Returns the IDs of the tasks blocking each of the owner's tasks, by task ID.
+     */
+    private async loadDependencies(tx: SqlExecutor): Promise<Map<number, number[]>> {
+        const rows = await tx.all('SELECT id, blockedBy FROM tasks WHERE ownerId = ?', [this.ownerId]);
+        return new Map(rows.map(row => [row.id, JSON.parse(row.blockedBy || '[]')]));
+    }
+
+    /**
+     * Returns the IDs of a task's parent, its parent's parent and so on.
+     */
+    private async getAncestorIds(tx: SqlExecutor, taskId: number): Promise<number[]> {
+        const rows = await tx.all(
+            `WITH RECURSIVE ancestors(id) AS (
+                SELECT parentId FROM tasks WHERE id = ?
+                UNION SELECT tasks.parentId FROM tasks JOIN ancestors ON tasks.id = ancestors.id
+            )
+            SELECT id FROM ancestors WHERE id IS NOT NULL`,
+            [taskId]
+        );
+        return rows.map(row => row.id);
+    }
+
+    /**
+     * @throws ValidationError when the parent does not exist, or is the task itself or one of its subtasks.
+     */
+    private async checkParent(tx: SqlExecutor, taskId: number | null, parentId: number): Promise<void> {
+        if (!await this.findIn(tx, parentId)) {
+            throw new ValidationError(`parentId: Task ${parentId} not found`);
+        }
+        if (parentId === taskId) {
+            throw new ValidationError('parentId: A task cannot be its own subtask');
+        }
+        if (taskId !== null && (await this.getAncestorIds(tx, parentId)).includes(taskId)) {
+            throw new ValidationError(`parentId: Task ${parentId} is a subtask of task ${taskId}, so it cannot also be its parent`);
+        }
+    }
+
+    /**
+     * @throws ValidationError when a blocking task does not exist, or depends on the task itself,
+     * which would form a cycle.
+     */
+    private async checkBlockers(tx: SqlExecutor, taskId: number | null, blockedBy: number[]): Promise<void> {
+        if (taskId !== null && blockedBy.includes(taskId)) {
+            throw new ValidationError('blockedBy: A task cannot be blocked by itself');
+        }
+        const dependencies = await this.loadDependencies(tx);
+        const missing = blockedBy.filter(id => !dependencies.has(id));
+        if (missing.length > 0) {
+            throw new ValidationError(`blockedBy: Task ${missing.join(', ')} not found`);
+        }
+        if (taskId === null) {
+            return;
+        }
+        for (const blockerId of blockedBy) {
+            const path = findDependencyPath(dependencies, blockerId, taskId);
+            if (path) {
+                throw new ValidationError(
+                    `blockedBy: Task ${blockerId} already depends on task ${taskId} (${path.join(' is blocked by ')}), `
+                    + `so task ${taskId} cannot be blocked by it`
+                );
+            }
+        }
+    }
+
+    /**
+     * Returns the list and relations a task can be restored with: its list if it still exists,
+     * otherwise the Inbox list, and the parent and blocking tasks that still exist and do not
+     * form a cycle with it.
+     */
+    private async restorableRelations(tx: SqlExecutor, task: TaskItem): Promise<Pick<TaskItem, 'listId' | 'parentId' | 'blockedBy'>> {
+        let parentId = task.parentId;
+        if (parentId !== null && (!await this.findIn(tx, parentId) || (await this.getAncestorIds(tx, parentId)).includes(task.id))) {
+            parentId = null;
+        }
+        const dependencies = await this.loadDependencies(tx);
+        const blockedBy = task.blockedBy.filter(
+            id => dependencies.has(id) && id !== task.id && !findDependencyPath(dependencies, id, task.id)
+        );
+        return { listId: await this.restorableListId(tx, task.listId), parentId, blockedBy };
+    }
+
+    /**
+     * Completes a parent task once all its subtasks are complete, and reopens it while one of
+     * them is open.
+     */
+    private async rollUp(tx: SqlExecutor, parentId: number, actor: TaskActor, related: TaskChangeEvent[]): Promise<void> {
+        const parent = await this.findIn(tx, parentId);
+        const subtasks = await this.selectMatching(tx, { parentId });
+        if (!parent || subtasks.length === 0) {
+            return;
+        }
+        const isComplete = subtasks.every(subtask => subtask.isComplete);
+        if (isComplete !== parent.isComplete) {
+            related.push(await this.updateIn(tx, parent, { isComplete }, actor, related));
+        }
+    }
+
+    /**
+     * @throws ConflictError when a list the owner can see, other than `exceptId`, is called `name`,
+     * ignoring case.
+     */
+    private async checkListName(tx: SqlExecutor, name: string, exceptId?: number): Promise<void> {
+        const row = await tx.get(
+            `SELECT id FROM task_lists WHERE name = ? AND id IS NOT ? AND ${VISIBLE_LIST}`,
+            [name, exceptId ?? null, this.ownerId]
+        );
+        if (row) {
+            throw new ConflictError(`A list named "${name}" already exists`, { listId: row.id });
+        }
+    }
+
+    /**
+     * @throws ValidationError when a task refers to a list that does not exist or belongs to
+     * another owner.
+     */
+    private async checkListExists(tx: SqlExecutor, listId: number): Promise<void> {
+        if (!await this.findListIn(tx, listId)) {
+            throw new ValidationError(`listId: Task list ${listId} not found`);
+        }
+    }
+
+    /**
+     * Returns `listId` if the list still exists, otherwise the Inbox list.
+     */
+    private async restorableListId(tx: SqlExecutor, listId: number): Promise<number> {
+        return await this.findListIn(tx, listId) ? listId : DEFAULT_LIST_ID;
+    }
+
+    /**
+     * Creates a task. Changes this makes to related tasks are appended to `related`.
+     */
+    private async createIn(
+        tx: SqlExecutor,
+        input: CreateTaskInput,
+        actor: TaskActor,
+        related: TaskChangeEvent[]
+    ): Promise<TaskChangeEvent> {
+        const now = new Date().toISOString();
+        const isComplete = input.isComplete ?? false;
+        const parentId = input.parentId ?? null;
+        if (parentId !== null) {
+            await this.checkParent(tx, null, parentId);
+        }
+        const listId = input.listId ?? (parentId !== null ? (await this.findIn(tx, parentId)).listId : DEFAULT_LIST_ID);
+        await this.checkListExists(tx, listId);
+        const blockedBy = this.normalizeIds(input.blockedBy);
+        await this.checkBlockers(tx, null, blockedBy);
+        const result = await tx.run(
+            `INSERT INTO tasks (ownerId, title, description, isComplete, dueDate, priority, tags, listId, parentId, blockedBy, createdAt, updatedAt, completedAt)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            [
+                this.ownerId,
+                input.title,
+                input.description ?? null,
+                isComplete ? 1 : 0,
+                input.dueDate ?? null,
+                input.priority ?? 'medium',
+                JSON.stringify(this.normalizeTags(input.tags)),
+                listId,
+                parentId,
+                JSON.stringify(blockedBy),
+                now,
+                now,
+                isComplete ? now : null
+            ]
+        );
+        const task = await this.findIn(tx, result.lastID);
+        const event = await this.recordChange(tx, 'created', null, task, actor);
+        if (parentId !== null) {
+            await this.rollUp(tx, parentId, actor, related);
+        }
+        return event;
+    }
+
+    /**
+     * Updates a task. Changes this makes to related tasks are appended to `related`.
+     *
+     * @param fromParent - True when the parent task is being changed, and will be rolled up by then.
+     */
+    private async updateIn(
+        tx: SqlExecutor,
+        currentTask: TaskItem,
+        changes: UpdateTaskInput,
+        actor: TaskActor,
+        related: TaskChangeEvent[],
+        fromParent = false
+    ): Promise<TaskChangeEvent> {
+        if (typeof changes.listId === 'number' && changes.listId !== currentTask.listId) {
+            await this.checkListExists(tx, changes.listId);
+        }
+        const parentId = typeof changes.parentId !== 'undefined' ? changes.parentId : currentTask.parentId;
+        if (parentId !== null && parentId !== currentTask.parentId) {
+            await this.checkParent(tx, currentTask.id, parentId);
+        }
+        const blockedBy = changes.blockedBy ? this.normalizeIds(changes.blockedBy) : currentTask.blockedBy;
+        if (changes.blockedBy) {
+            await this.checkBlockers(tx, currentTask.id, blockedBy);
+        }
+        const now = new Date().toISOString();
+        const updated: TaskItem = {
+            ...currentTask,
+            title: changes.title ?? currentTask.title,
+            description: typeof changes.description !== 'undefined' ? changes.description : currentTask.description,
+            isComplete: changes.isComplete ?? currentTask.isComplete,
+            dueDate: typeof changes.dueDate !== 'undefined' ? changes.dueDate : currentTask.dueDate,
+            priority: changes.priority ?? currentTask.priority,
+            tags: changes.tags ? this.normalizeTags(changes.tags) : currentTask.tags,
+            listId: changes.listId ?? currentTask.listId,
+            parentId,
+            blockedBy,
+            updatedAt: now
+        };
+        // Track when a task transitions between open and complete
+        if (updated.isComplete !== currentTask.isComplete) {
+            updated.completedAt = updated.isComplete ? now : null;
+        }
+        await this.writeTask(tx, updated);
+        const event = await this.recordChange(tx, 'updated', currentTask, updated, actor);
+
+        // Subtasks follow their parent into another list, and are completed with it
+        const subtaskChanges: UpdateTaskInput = {};
+        if (updated.isComplete && !currentTask.isComplete) {
+            subtaskChanges.isComplete = true;
+        }
+        if (updated.listId !== currentTask.listId) {
+            subtaskChanges.listId = updated.listId;
+        }
+        if (Object.keys(subtaskChanges).length > 0) {
+            for (const subtask of await this.selectMatching(tx, { parentId: updated.id })) {
+                if (Object.entries(subtaskChanges).some(([field, value]) => subtask[field] !== value)) {
+                    related.push(await this.updateIn(tx, subtask, subtaskChanges, actor, related, true));
+                }
+            }
+        }
+
+        if (!fromParent && updated.parentId !== currentTask.parentId) {
+            for (const affectedId of [currentTask.parentId, updated.parentId]) {
+                if (affectedId !== null) {
+                    await this.rollUp(tx, affectedId, actor, related);
+                }
+            }
+        } else if (!fromParent && updated.parentId !== null && updated.isComplete !== currentTask.isComplete) {
+            await this.rollUp(tx, updated.parentId, actor, related);
+        }
+        return event;
+    }
+
+    /**
+     * Deletes a task with its subtasks, and removes it from the tasks it blocks. Those changes
+     * are recorded before the deletion itself, so undoing them one after another restores the
+     * task before its subtasks, and are appended to `related`.
+     *
+     * @param fromParent - True when the parent task is being deleted too.
+     */
+    private async deleteIn(
+        tx: SqlExecutor,
+        task: TaskItem,
+        actor: TaskActor,
+        related: TaskChangeEvent[],
+        fromParent = false
+    ): Promise<TaskChangeEvent> {
+        for (const subtask of await this.selectMatching(tx, { parentId: task.id })) {
+            related.push(await this.deleteIn(tx, subtask, actor, related, true));
+        }
+        for (const dependent of await this.selectDependents(tx, task.id)) {
+            const blockedBy = dependent.blockedBy.filter(id => id !== task.id);
+            related.push(await this.updateIn(tx, dependent, { blockedBy }, actor, related));
+        }
+        // Removing it from the tasks it blocked may have changed the task itself
+        const current = await this.findIn(tx, task.id);
+        await tx.run('DELETE FROM tasks WHERE id = ?', [task.id]);
+        const event = await this.recordChange(tx, 'deleted', current, null, actor);
+        if (!fromParent && current.parentId !== null) {
+            await this.rollUp(tx, current.parentId, actor, related);
+        }
+        return event;
+    }
+
+    /**
+     * Compares the user-editable fields of two versions of a task, ignoring timestamps that
+     * only record when they were written.
+     */
+    private hasSameContent(a: TaskItem, b: TaskItem): boolean {
+        return a.title === b.title
+            && a.description === b.description
+            && a.isComplete === b.isComplete
+            && a.dueDate === b.dueDate
+            && a.priority === b.priority
+            && JSON.stringify(a.tags) === JSON.stringify(b.tags)
+            && a.listId === b.listId
+            && a.parentId === b.parentId
+            && JSON.stringify(a.blockedBy) === JSON.stringify(b.blockedBy);
+    }
+
+    /**
+     * Overwrites every field of an existing task.
+     */
+    private async writeTask(tx: SqlExecutor, task: TaskItem): Promise<void> {
+        await tx.run(
+            `UPDATE tasks SET title = ?, description = ?, isComplete = ?, dueDate = ?, priority = ?, tags = ?,
+                listId = ?, parentId = ?, blockedBy = ?, updatedAt = ?, completedAt = ?
+             WHERE id = ?`,
+            [
+                task.title,
+                task.description,
+                task.isComplete ? 1 : 0,
+                task.dueDate,
+                task.priority,
+                JSON.stringify(task.tags),
+                task.listId,
+                task.parentId,
+                JSON.stringify(task.blockedBy),
+                task.updatedAt,
+                task.completedAt,
+                task.id
+            ]
+        );
+    }
+
+    /**
+     * Inserts a task with its ID and timestamps as given, e.g. to restore a deleted task.
+     */
+    private async insertTask(tx: SqlExecutor, task: TaskItem): Promise<void> {
+        await tx.run(
+            `INSERT INTO tasks (id, ownerId, title, description, isComplete, dueDate, priority, tags, listId, parentId, blockedBy, createdAt, updatedAt, completedAt)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            [
+                task.id,
+                this.ownerId,
+                task.title,
+                task.description,
+                task.isComplete ? 1 : 0,
+                task.dueDate,
+                task.priority,
+                JSON.stringify(task.tags),
+                task.listId,
+                task.parentId,
+                JSON.stringify(task.blockedBy),
+                task.createdAt,
+                task.updatedAt,
+                task.completedAt
+            ]
+        );
+    }
+
+    /**
+     * Appends a change to `task_events`.
+     */
+    private async recordChange(
+        tx: SqlExecutor,
+        type: TaskChangeType,
+        before: TaskItem | null,
+        task: TaskItem | null,
+        actor: TaskActor,
+        revertsEventId: number | null = null
+    ): Promise<TaskChangeEvent> {
+        const taskId = (task ?? before).id;
+        const createdAt = new Date().toISOString();
+        const result = await tx.run(
+            `INSERT INTO task_events
+                (ownerId, type, taskId, before, task, actorType, actorAgentId, actorSessionId, revertsEventId, createdAt)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            [
+                this.ownerId,
+                type,
+                taskId,
+                before ? JSON.stringify(before) : null,
+                task ? JSON.stringify(task) : null,
+                actor.type,
+                actor.agentId ?? null,
+                actor.sessionId ?? null,
+                revertsEventId,
+                createdAt
+            ]
+        );
+        return { id: result.lastID, type, taskId, before, task, actor, revertsEventId, createdAt };
+    }
+
+    /**
+     * Publishes the changes of a transaction in the order they were recorded.
+     */
+    private publishChanges(events: TaskChangeEvent[]): void {
+        [...events].sort((a, b) => a.id - b.id).forEach((event) => this.publishChange(event));
+    }
+
+    private publishChange(event: TaskChangeEvent): void {
+        try {
+            this.changes.emit(this.changeChannel(), event);
+        } catch (error) {
+            // A failing listener must not turn a committed change into an error for the caller
+            console.error('Error publishing task change:', error);
+        }
+    }
+
+    /**
+     * Event the owner's changes are emitted as, so listeners never hear of other owners' changes.
+     */
+    private changeChannel(): string {
+        return `change:${this.ownerId}`;
+    }
+
+    private normalizeTags(tags?: string[]): string[] {
+        if (!tags) {
+            return [];
+        }
+        const trimmed = tags.map(tag => tag.trim()).filter(tag => tag.length > 0);
+        return Array.from(new Set(trimmed));
+    }
+
+    private normalizeIds(ids?: number[]): number[] {
+        return Array.from(new Set(ids ?? []));
+    }
+
+    private toChangeEvent(row: any): TaskChangeEvent {
+        const actor: TaskActor = { type: row.actorType };
+        if (row.actorAgentId) {
+            actor.agentId = row.actorAgentId;
+        }
+        if (row.actorSessionId) {
+            actor.sessionId = row.actorSessionId;
+        }
+        return {
+            id: row.id,
+            type: row.type,
+            taskId: row.taskId,
+            before: row.before ? this.parseRecordedTask(row.before) : null,
+            task: row.task ? this.parseRecordedTask(row.task) : null,
+            actor,
+            revertsEventId: row.revertsEventId ?? null,
+            createdAt: row.createdAt
+        };
+    }
+
+    /**
+     * Reads a task recorded in `task_events`. Tasks recorded before task lists existed were in
+     * what became the Inbox list, and those recorded before subtasks and dependencies had none.
+     */
+    private parseRecordedTask(json: string): TaskItem {
+        return { listId: DEFAULT_LIST_ID, parentId: null, blockedBy: [], ...JSON.parse(json) };
+    }
+
+    private toTaskList(row: any): TaskList {
+        return {
+            id: row.id,
+            name: row.name,
+            description: row.description ?? null,
+            taskCount: row.taskCount,
+            openTaskCount: row.openTaskCount,
+            createdAt: row.createdAt,
+            updatedAt: row.updatedAt
+        };
     }
 
-    close(): void {
-        this.db.close();
+    private toTaskItem(row: any): TaskItem {
+        return {
+            id: row.id,
+            title: row.title,
+            description: row.description ?? null,
+            isComplete: !!row.isComplete,
+            dueDate: row.dueDate ?? null,
+            priority: row.priority,
+            tags: JSON.parse(row.tags || '[]'),
+            listId: row.listId,
+            parentId: row.parentId ?? null,
+            blockedBy: JSON.parse(row.blockedBy || '[]'),
+            createdAt: row.createdAt,
+            updatedAt: row.updatedAt,
+            completedAt: row.completedAt ?? null
+        };
     }
 }
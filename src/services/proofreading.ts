@@ -0,0 +1,105 @@
+import { proofreadModelOutputSchema } from '../schemas/email';
+import { validate } from '../schemas/validate';
+import { UpstreamError } from '../errors';
+import { ProofreadEdit, ProofreadRequest } from '../types';
+
+// Structured proofreading on top of a chat model that answers in text: the prompt asks for the
+// edits as JSON quoting the text they replace, and the quotes are located in the email to get
+// offsets the client can rely on.
+
+const INVALID_ANSWER_DETAIL = 'The proofreading agent did not answer with edits in the expected format.';
+
+const TONE_INSTRUCTIONS: Record<string, string> = {
+    neutral: 'Make the tone neutral and matter-of-fact.',
+    formal: 'Make the tone formal and polite, as for a business contact.',
+    friendly: 'Make the tone warm and friendly, as for a colleague.',
+    concise: 'Make the email concise: remove filler words and redundant sentences.'
+};
+
+type ModelEdit = Omit<ProofreadEdit, 'start' | 'end'>;
+
+/**
+ * Builds the message asking the agent for the edits of `request` as JSON.
+ */
+export function buildProofreadPrompt(request: ProofreadRequest): string {
+    const tone = request.tone
+        ? `${TONE_INSTRUCTIONS[request.tone]} Changes made only for the tone have the category "tone".`
+        : 'Keep the tone of the email; only fix spelling and grammar.';
+    return `Proofread the email between the <email> tags for the ${request.locale} locale, using its spelling and grammar conventions. ${tone}
+
+Answer with only a JSON object, without code fences or other text, of this form:
+{"edits": [{"original": "...", "replacement": "...", "category": "spelling" | "grammar" | "tone", "explanation": "..."}]}
+
+- "original" is copied exactly from the email and is as short as possible, e.g. the misspelled word.
+- "replacement" is the text that replaces it; use an empty string to delete it.
+- "explanation" is one short sentence for the writer.
+- List the edits in the order they appear in the email, without overlapping edits.
+- Answer {"edits": []} when nothing needs changing.
+
+<email>
+${request.text}
+</email>`;
+}
+
+/**
+ * Reads the edits out of the agent's answer, tolerating code fences and text around the JSON.
+ *
+ * @throws UpstreamError when the answer holds no valid edits.
+ */
+export function parseProofreadAnswer(answer: string): ModelEdit[] {
+    const start = answer.indexOf('{');
+    const end = answer.lastIndexOf('}');
+    let data: unknown;
+    try {
+        data = JSON.parse(answer.slice(start, end + 1));
+    } catch (error) {
+        throw new UpstreamError(INVALID_ANSWER_DETAIL, {}, error);
+    }
+    const { value, error } = validate(proofreadModelOutputSchema, data);
+    if (error) {
+        throw new UpstreamError(`${INVALID_ANSWER_DETAIL} ${error}`);
+    }
+    return value.edits;
+}
+
+/**
+ * Finds the text each edit replaces in `text` and returns the edits with their offsets, in order.
+ *
+ * Quotes are searched for after the previous edit first, so a word corrected twice is matched in
+ * order. Edits whose quote cannot be found, that overlap an earlier edit or change nothing are
+ * dropped, so the result always applies cleanly.
+ */
+export function locateEdits(text: string, edits: ModelEdit[]): ProofreadEdit[] {
+    const located: ProofreadEdit[] = [];
+    let cursor = 0;
+    for (const edit of edits) {
+        if (edit.original === edit.replacement) {
+            continue;
+        }
+        let start = text.indexOf(edit.original, cursor);
+        if (start === -1) {
+            start = text.indexOf(edit.original);
+        }
+        const end = start + edit.original.length;
+        if (start === -1 || located.some((other) => start < other.end && other.start < end)) {
+            console.warn(`Dropping proofreading edit that does not match the text: ${JSON.stringify(edit.original)}`);
+            continue;
+        }
+        located.push({ start, end, ...edit });
+        cursor = end;
+    }
+    return located.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Applies non-overlapping edits, sorted by offset, to the text they were located in.
+ */
+export function applyEdits(text: string, edits: ProofreadEdit[]): string {
+    let result = '';
+    let position = 0;
+    for (const edit of edits) {
+        result += text.slice(position, edit.start) + edit.replacement;
+        position = edit.end;
+    }
+    return result + text.slice(position);
+}
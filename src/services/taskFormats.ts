@@ -0,0 +1,413 @@
+import { TaskFormat, TaskItem } from '../types';
+
+// Conversion of tasks to and from the file formats of the import and export routes
+
+export const TASK_FORMATS: TaskFormat[] = ['json', 'csv', 'markdown', 'ical'];
+
+/**
+ * Content type and file extension of each format, for downloads and for recognizing uploads.
+ */
+export const TASK_FORMAT_FILES: Record<TaskFormat, { contentType: string; extension: string }> = {
+    json: { contentType: 'application/json', extension: 'json' },
+    csv: { contentType: 'text/csv', extension: 'csv' },
+    markdown: { contentType: 'text/markdown', extension: 'md' },
+    ical: { contentType: 'text/calendar', extension: 'ics' }
+};
+
+/**
+ * A task read from an imported file, shaped like the body of `POST /api/tasks` so the same
+ * validation applies to it. `record` is the 1-based position of the task in the file.
+ */
+export interface ParsedTaskRecord {
+    record: number;
+    fields: Record<string, unknown>;
+}
+
+/**
+ * Outcome of reading an imported file: the tasks it holds and the records that could not be read.
+ */
+export interface ParsedTaskFile {
+    records: ParsedTaskRecord[];
+    errors: { record: number; error: string }[];
+}
+
+const CSV_COLUMNS: (keyof TaskItem)[] = [
+    'id', 'title', 'description', 'isComplete', 'dueDate', 'priority', 'tags', 'createdAt', 'updatedAt', 'completedAt'
+];
+
+/**
+ * iCalendar priorities written for each task priority. On import 1-4 read as high, 5 as medium
+ * and 6-9 as low, as RFC 5545 suggests.
+ */
+const ICAL_PRIORITIES = { high: 1, medium: 5, low: 9 };
+
+/**
+ * Renders tasks in the given format:
+ *
+ * - `json` — every field of every task, so nothing is lost.
+ * - `csv` — one row per task under a header row; tags are separated by `;`.
+ * - `markdown` — a GitHub-style checklist, `- [x] Title due:2025-01-31 !high #tag`, with the
+ *   description indented on the lines below.
+ * - `ical` — an iCalendar file with one VTODO per task.
+ */
+export function formatTasks(tasks: TaskItem[], format: TaskFormat): string {
+    switch (format) {
+        case 'json':
+            return JSON.stringify({ exportedAt: new Date().toISOString(), tasks }, null, 2);
+        case 'csv':
+            return formatCsv(tasks);
+        case 'markdown':
+            return formatMarkdown(tasks);
+        case 'ical':
+            return formatICalendar(tasks);
+    }
+}
+
+/**
+ * Reads the tasks from an imported file. JSON content may already be parsed by the body parser.
+ * Fields the format does not carry are left out, so the defaults of a new task apply.
+ */
+export function parseTasks(content: unknown, format: TaskFormat): ParsedTaskFile {
+    if (format === 'json') {
+        return parseJson(content);
+    }
+    if (typeof content !== 'string') {
+        return { records: [], errors: [{ record: 0, error: `Expected a ${format} file as the request body` }] };
+    }
+    switch (format) {
+        case 'csv':
+            return parseCsv(content);
+        case 'markdown':
+            return parseMarkdown(content);
+        case 'ical':
+            return parseICalendar(content);
+    }
+}
+
+function parseJson(content: unknown): ParsedTaskFile {
+    let data = content;
+    if (typeof data === 'string') {
+        try {
+            data = JSON.parse(data);
+        } catch {
+            return { records: [], errors: [{ record: 0, error: 'The file is not valid JSON' }] };
+        }
+    }
+    // Accepts an export (`{ tasks: [...] }`) or a bare array of tasks
+    const tasks = Array.isArray(data) ? data : (data as any)?.tasks;
+    if (!Array.isArray(tasks)) {
+        return { records: [], errors: [{ record: 0, error: 'Expected an array of tasks or an object with a tasks array' }] };
+    }
+
+    const file: ParsedTaskFile = { records: [], errors: [] };
+    tasks.forEach((task, index) => {
+        if (!task || typeof task !== 'object' || Array.isArray(task)) {
+            file.errors.push({ record: index + 1, error: 'Expected a task object' });
+            return;
+        }
+        const { title, description, isComplete, dueDate, priority, tags } = task;
+        file.records.push({ record: index + 1, fields: { title, description, isComplete, dueDate, priority, tags } });
+    });
+    return file;
+}
+
+function formatCsv(tasks: TaskItem[]): string {
+    const quote = (value: unknown) => {
+        const text = value === null || typeof value === 'undefined' ? '' : String(value);
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+    const rows = tasks.map((task) => CSV_COLUMNS
+        .map((column) => quote(column === 'tags' ? task.tags.join(';') : task[column]))
+        .join(','));
+    return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+/**
+ * Splits CSV text into rows of cells, following RFC 4180: quoted cells may hold commas,
+ * line breaks and doubled quotes.
+ */
+function readCsvRows(content: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+        if (quoted) {
+            if (char === '"' && content[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            row.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && content[i + 1] === '\n') {
+                i++;
+            }
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+    if (cell || row.length > 0) {
+        row.push(cell);
+        rows.push(row);
+    }
+    // Blank lines carry no task
+    return rows.filter((cells) => cells.some((value) => value.trim() !== ''));
+}
+
+function parseCsv(content: string): ParsedTaskFile {
+    const [header, ...rows] = readCsvRows(content.replace(/^\uFEFF/, ''));
+    const columns = (header ?? []).map((name) => name.trim());
+    if (!columns.includes('title')) {
+        return { records: [], errors: [{ record: 0, error: 'The header row must have a title column' }] };
+    }
+
+    const file: ParsedTaskFile = { records: [], errors: [] };
+    rows.forEach((cells, index) => {
+        const record = index + 1;
+        const value = (column: string) => {
+            const position = columns.indexOf(column);
+            const text = position === -1 ? '' : (cells[position] ?? '').trim();
+            return text === '' ? undefined : text;
+        };
+        const fields: Record<string, unknown> = {
+            title: value('title') ?? '',
+            description: value('description'),
+            dueDate: value('dueDate'),
+            priority: value('priority')
+        };
+
+        const isComplete = value('isComplete')?.toLowerCase();
+        if (typeof isComplete !== 'undefined') {
+            if (!['true', 'false', '1', '0'].includes(isComplete)) {
+                file.errors.push({ record, error: 'isComplete must be true or false' });
+                return;
+            }
+            fields.isComplete = isComplete === 'true' || isComplete === '1';
+        }
+        const tags = value('tags');
+        if (typeof tags !== 'undefined') {
+            fields.tags = tags.split(';').map((tag) => tag.trim()).filter(Boolean);
+        }
+        file.records.push({ record, fields });
+    });
+    return file;
+}
+
+function formatMarkdown(tasks: TaskItem[]): string {
+    return tasks.map((task) => {
+        const parts = [`- [${task.isComplete ? 'x' : ' '}] ${task.title}`];
+        if (task.dueDate) {
+            parts.push(`due:${task.dueDate}`);
+        }
+        if (task.priority !== 'medium') {
+            parts.push(`!${task.priority}`);
+        }
+        parts.push(...task.tags.filter((tag) => !/\s/.test(tag)).map((tag) => `#${tag}`));
+        const description = task.description
+            ? '\n' + task.description.split(/\r?\n/).map((line) => `  ${line}`).join('\n')
+            : '';
+        return parts.join(' ') + description;
+    }).join('\n') + '\n';
+}
+
+/**
+ * Reads `- [ ]` and `- [x]` items; `*` and `+` bullets and numbered items work too. Trailing
+ * `due:YYYY-MM-DD`, `!low`/`!medium`/`!high` and `#tag` tokens become the due date, priority
+ * and tags, and indented lines directly below an item become its description. Other lines are ignored.
+ */
+function parseMarkdown(content: string): ParsedTaskFile {
+    const file: ParsedTaskFile = { records: [], errors: [] };
+    let current: ParsedTaskRecord | null = null;
+
+    for (const line of content.split(/\r?\n/)) {
+        const item = /^\s*(?:[-*+]|\d+[.)])\s+\[([ xX])\]\s+(.*)$/.exec(line);
+        if (item) {
+            const words = item[2].trim().split(/\s+/);
+            const tags: string[] = [];
+            const fields: Record<string, unknown> = { isComplete: item[1] !== ' ' };
+            // Metadata tokens are only recognized at the end, so titles may contain "#1" and the like
+            while (words.length > 1) {
+                const word = words[words.length - 1];
+                if (/^#\S+$/.test(word)) {
+                    tags.unshift(word.slice(1));
+                } else if (/^due:\S+$/.test(word)) {
+                    fields.dueDate = word.slice(4);
+                } else if (/^!(low|medium|high)$/.test(word)) {
+                    fields.priority = word.slice(1);
+                } else {
+                    break;
+                }
+                words.pop();
+            }
+            fields.title = words.join(' ');
+            if (tags.length > 0) {
+                fields.tags = tags;
+            }
+            current = { record: file.records.length + 1, fields };
+            file.records.push(current);
+        } else if (current && /^\s+\S/.test(line)) {
+            const text = line.trim();
+            current.fields.description = current.fields.description ? `${current.fields.description}\n${text}` : text;
+        } else {
+            current = null;
+        }
+    }
+    return file;
+}
+
+function formatICalendar(tasks: TaskItem[]): string {
+    const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//Task Manager//Tasks//EN'];
+    for (const task of tasks) {
+        lines.push(
+            'BEGIN:VTODO',
+            `UID:task-${task.id}@task-manager`,
+            `DTSTAMP:${toICalDateTime(task.updatedAt)}`,
+            `CREATED:${toICalDateTime(task.createdAt)}`,
+            `LAST-MODIFIED:${toICalDateTime(task.updatedAt)}`,
+            `SUMMARY:${escapeICalText(task.title)}`
+        );
+        if (task.description) {
+            lines.push(`DESCRIPTION:${escapeICalText(task.description)}`);
+        }
+        if (task.dueDate) {
+            lines.push(/^\d{4}-\d{2}-\d{2}$/.test(task.dueDate)
+                ? `DUE;VALUE=DATE:${task.dueDate.replace(/-/g, '')}`
+                : `DUE:${toICalDateTime(task.dueDate)}`);
+        }
+        lines.push(`PRIORITY:${ICAL_PRIORITIES[task.priority]}`);
+        if (task.tags.length > 0) {
+            lines.push(`CATEGORIES:${task.tags.map(escapeICalText).join(',')}`);
+        }
+        lines.push(`STATUS:${task.isComplete ? 'COMPLETED' : 'NEEDS-ACTION'}`);
+        if (task.completedAt) {
+            lines.push(`COMPLETED:${toICalDateTime(task.completedAt)}`);
+        }
+        lines.push('END:VTODO');
+    }
+    lines.push('END:VCALENDAR');
+    return lines.map(foldICalLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Reads the VTODO components of an iCalendar file. Other components, such as events, are ignored.
+ */
+function parseICalendar(content: string): ParsedTaskFile {
+    // Long lines are folded onto continuation lines that start with a space or tab
+    const lines = content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+    if (lines[0]?.trim() !== 'BEGIN:VCALENDAR') {
+        return { records: [], errors: [{ record: 0, error: 'The file is not an iCalendar file' }] };
+    }
+
+    const file: ParsedTaskFile = { records: [], errors: [] };
+    let todo: Record<string, { params: string; value: string }> | null = null;
+
+    for (const line of lines) {
+        if (line === 'BEGIN:VTODO') {
+            todo = {};
+        } else if (line === 'END:VTODO' && todo) {
+            const record = file.records.length + file.errors.length + 1;
+            try {
+                file.records.push({ record, fields: toTaskFields(todo) });
+            } catch (error) {
+                file.errors.push({ record, error: error.message });
+            }
+            todo = null;
+        } else if (todo) {
+            const match = /^([A-Za-z0-9-]+)((?:;[^:]*)?):(.*)$/.exec(line);
+            // Only the first occurrence of a property counts
+            if (match && !todo[match[1].toUpperCase()]) {
+                todo[match[1].toUpperCase()] = { params: match[2], value: match[3] };
+            }
+        }
+    }
+    return file;
+}
+
+function toTaskFields(todo: Record<string, { params: string; value: string }>): Record<string, unknown> {
+    const fields: Record<string, unknown> = {
+        title: todo.SUMMARY ? unescapeICalText(todo.SUMMARY.value) : '',
+        isComplete: todo.STATUS?.value.toUpperCase() === 'COMPLETED' || Boolean(todo.COMPLETED)
+    };
+    if (todo.DESCRIPTION) {
+        fields.description = unescapeICalText(todo.DESCRIPTION.value);
+    }
+    if (todo.DUE) {
+        fields.dueDate = fromICalDate(todo.DUE.value);
+    }
+    const priority = todo.PRIORITY ? Number(todo.PRIORITY.value) : 0;
+    if (priority >= 1 && priority <= 9) {
+        fields.priority = priority < 5 ? 'high' : priority === 5 ? 'medium' : 'low';
+    }
+    if (todo.CATEGORIES) {
+        fields.tags = todo.CATEGORIES.value.split(/(?<!\\),/).map(unescapeICalText).map((tag) => tag.trim()).filter(Boolean);
+    }
+    return fields;
+}
+
+function escapeICalText(text: string): string {
+    return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+function unescapeICalText(text: string): string {
+    return text.replace(/\\([\\;,nN])/g, (_match, char) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+/**
+ * Converts an ISO 8601 timestamp into the UTC form of iCalendar, e.g. `20250131T090000Z`.
+ */
+function toICalDateTime(value: string): string {
+    return new Date(value).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Converts an iCalendar date (`20250131`) or date-time (`20250131T090000Z`) into ISO 8601.
+ * Date-times without `Z` are floating local times and are kept without a zone.
+ */
+function fromICalDate(value: string): string {
+    const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z?))?$/.exec(value.trim());
+    if (!match) {
+        throw new Error(`DUE is not an iCalendar date: ${value}`);
+    }
+    const [, year, month, day, hours, minutes, seconds, utc] = match;
+    const date = `${year}-${month}-${day}`;
+    return hours ? `${date}T${hours}:${minutes}:${seconds}${utc ? '.000Z' : ''}` : date;
+}
+
+/**
+ * Folds a content line so no line is longer than 75 octets of UTF-8, as RFC 5545 requires.
+ * Lines are only broken between code points, so characters such as emoji are never split.
+ */
+function foldICalLine(line: string): string {
+    const parts: string[] = [];
+    let part = '';
+    let octets = 0;
+    let limit = 75;
+    for (const char of line) {
+        const size = Buffer.byteLength(char, 'utf8');
+        if (octets + size > limit) {
+            parts.push(part);
+            part = '';
+            octets = 0;
+            // Continuation lines start with a space, which counts towards their length
+            limit = 74;
+        }
+        part += char;
+        octets += size;
+    }
+    parts.push(part);
+    return parts.join('\r\n ');
+}
@@ -0,0 +1,205 @@
+import { randomBytes } from 'crypto';
+import { Span, SpanKind, SpanStatusCode, context, isSpanContextValid, trace } from '@opentelemetry/api';
+import { chatMessageDuration, chatTokens, toolCallDuration } from './metrics';
+import { ChatTrace, TokenUsage, ToolCallTrace } from '../types';
+
+const tracer = trace.getTracer('task-manager-agents');
+
+/**
+ * Longest tool call arguments recorded on a span, in characters.
+ */
+const MAX_ATTRIBUTE_LENGTH = 1000;
+
+/**
+ * What a traced agent turn did: replied to a new message, streamed a reply, carried on after
+ * the user answered a pending action, proofread an email for `POST /api/email/proofread`, or
+ * proposed tasks for `POST /api/tasks/extract`.
+ */
+export type ChatOperation = 'message' | 'stream' | 'approval' | 'proofread' | 'extract';
+
+/**
+ * - `ok`: the agent replied, or asked for confirmation.
+ * - `error`: the turn failed.
+ * - `cancelled`: the client went away before a streamed reply was complete.
+ */
+export type ChatOutcome = 'ok' | 'error' | 'cancelled';
+
+/**
+ * Returns the tokens an agent used in a turn itself, leaving out those of its delegates, which
+ * are charged to the delegates' own quotas.
+ */
+export function ownUsage(chatTrace: ChatTrace | undefined): TokenUsage | null {
+    let usage = chatTrace?.usage ?? null;
+    for (const delegate of chatTrace?.delegates ?? []) {
+        if (usage && delegate.usage) {
+            usage = {
+                promptTokens: usage.promptTokens - delegate.usage.promptTokens,
+                completionTokens: usage.completionTokens - delegate.usage.completionTokens,
+                totalTokens: usage.totalTokens - delegate.usage.totalTokens
+            };
+        }
+    }
+    return usage;
+}
+
+interface OpenToolCall {
+    trace: ToolCallTrace;
+    span: Span;
+    startedAt: number;
+}
+
+/**
+ * Records one agent turn: an OpenTelemetry span with a child span per tool call, the Prometheus
+ * metrics, and the `ChatTrace` returned with the reply.
+ *
+ * Spans go to whichever OpenTelemetry SDK the host registers; without one they are dropped, and
+ * the trace ID is generated locally so replies and logs can still be correlated.
+ */
+export class ChatTraceRecorder {
+    readonly traceId: string;
+
+    private agentId: string;
+    private operation: ChatOperation;
+    private span: Span;
+    private startedAt = Date.now();
+    private usage: TokenUsage | null = null;
+    private toolCalls: ToolCallTrace[] = [];
+    private openToolCalls: Map<string, OpenToolCall> = new Map();
+    private delegates: ChatTrace[] = [];
+    private result: ChatTrace | null = null;
+
+    constructor(agentId: string, operation: ChatOperation, sessionId?: string) {
+        this.agentId = agentId;
+        this.operation = operation;
+        this.span = tracer.startSpan(`chat ${agentId}`, {
+            kind: SpanKind.INTERNAL,
+            attributes: {
+                'gen_ai.operation.name': 'chat',
+                'gen_ai.agent.id': agentId,
+                'chat.operation': operation,
+                ...(sessionId ? { 'chat.session.id': sessionId } : {})
+            }
+        });
+        const spanContext = this.span.spanContext();
+        this.traceId = isSpanContextValid(spanContext) ? spanContext.traceId : randomBytes(16).toString('hex');
+    }
+
+    /**
+     * Adds the tokens of a model call to the turn's usage.
+     */
+    addUsage(usage: { promptTokens?: number; completionTokens?: number }): void {
+        const promptTokens = usage.promptTokens ?? 0;
+        const completionTokens = usage.completionTokens ?? 0;
+        this.usage = {
+            promptTokens: (this.usage?.promptTokens ?? 0) + promptTokens,
+            completionTokens: (this.usage?.completionTokens ?? 0) + completionTokens,
+            totalTokens: (this.usage?.totalTokens ?? 0) + promptTokens + completionTokens
+        };
+    }
+
+    /**
+     * Adds the trace of a turn another agent took on this agent's behalf. Its tokens count towards
+     * this turn's usage, but not again towards this agent's token metric.
+     */
+    addDelegate(delegate: ChatTrace): void {
+        this.delegates.push(delegate);
+    }
+
+    startToolCall(toolCallId: string, name: string, args: unknown): void {
+        const serializedArgs = typeof args === 'string' ? args : JSON.stringify(args ?? {});
+        const span = tracer.startSpan(`execute_tool ${name}`, {
+            kind: SpanKind.INTERNAL,
+            attributes: {
+                'gen_ai.operation.name': 'execute_tool',
+                'gen_ai.tool.name': name,
+                'gen_ai.tool.call.id': toolCallId,
+                'gen_ai.tool.call.arguments': serializedArgs.slice(0, MAX_ATTRIBUTE_LENGTH)
+            }
+        }, trace.setSpan(context.active(), this.span));
+        const toolCall: ToolCallTrace = { toolCallId, name, args, durationMs: 0, status: 'ok' };
+        this.toolCalls.push(toolCall);
+        this.openToolCalls.set(toolCallId, { trace: toolCall, span, startedAt: Date.now() });
+    }
+
+    /**
+     * Ends a tool call started with `startToolCall`; calls that were never started are ignored.
+     *
+     * @param outcome - What the tool returned, or the error the call failed with.
+     */
+    endToolCall(toolCallId: string, outcome: { result?: string; error?: unknown } = {}): void {
+        const call = this.openToolCalls.get(toolCallId);
+        if (!call) {
+            return;
+        }
+        this.openToolCalls.delete(toolCallId);
+        call.trace.durationMs = Date.now() - call.startedAt;
+        const { result, error } = outcome;
+        if (result !== undefined && !error) {
+            call.trace.result = result;
+        }
+        if (error) {
+            call.trace.status = 'error';
+            call.trace.error = error instanceof Error ? error.message : String(error);
+            call.span.setStatus({ code: SpanStatusCode.ERROR, message: call.trace.error });
+        }
+        call.span.end();
+        toolCallDuration.observe(
+            { agent: this.agentId, tool: call.trace.name, outcome: call.trace.status },
+            call.trace.durationMs / 1000
+        );
+    }
+
+    /**
+     * Ends the turn: closes its spans, updates the metrics and returns the trace. Later calls
+     * return the same trace without recording anything, so a turn can be finished defensively.
+     *
+     * @param error - The error the turn failed with, for the `error` outcome.
+     */
+    finish(outcome: ChatOutcome = 'ok', error?: unknown): ChatTrace {
+        if (this.result) {
+            return this.result;
+        }
+        for (const toolCallId of Array.from(this.openToolCalls.keys())) {
+            this.endToolCall(toolCallId, outcome === 'ok' ? {} : { error: `Turn ended with outcome ${outcome}` });
+        }
+
+        const durationMs = Date.now() - this.startedAt;
+        if (this.usage) {
+            this.span.setAttributes({
+                'gen_ai.usage.input_tokens': this.usage.promptTokens,
+                'gen_ai.usage.output_tokens': this.usage.completionTokens
+            });
+            chatTokens.inc({ agent: this.agentId, type: 'prompt' }, this.usage.promptTokens);
+            chatTokens.inc({ agent: this.agentId, type: 'completion' }, this.usage.completionTokens);
+        }
+        this.span.setAttributes({ 'chat.outcome': outcome, 'chat.tool_calls': this.toolCalls.length });
+        if (outcome === 'error') {
+            if (error instanceof Error) {
+                this.span.recordException(error);
+            }
+            this.span.setStatus({ code: SpanStatusCode.ERROR, message: error instanceof Error ? error.message : String(error) });
+        }
+        this.span.end();
+        chatMessageDuration.observe({ agent: this.agentId, operation: this.operation, outcome }, durationMs / 1000);
+
+        let usage = this.usage;
+        for (const delegate of this.delegates) {
+            if (delegate.usage) {
+                usage = {
+                    promptTokens: (usage?.promptTokens ?? 0) + delegate.usage.promptTokens,
+                    completionTokens: (usage?.completionTokens ?? 0) + delegate.usage.completionTokens,
+                    totalTokens: (usage?.totalTokens ?? 0) + delegate.usage.totalTokens
+                };
+            }
+        }
+        this.result = {
+            traceId: this.traceId,
+            agentId: this.agentId,
+            durationMs,
+            usage,
+            toolCalls: this.toolCalls,
+            ...(this.delegates.length > 0 ? { delegates: this.delegates } : {})
+        };
+        return this.result;
+    }
+}
@@ -0,0 +1,32 @@
+import { Counter, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+
+// Prometheus metrics of the chat agents, served at /api/metrics
+
+/**
+ * Registry of every metric the app exports, including the Node.js process metrics.
+ */
+export const metricsRegistry = new Registry();
+collectDefaultMetrics({ register: metricsRegistry });
+
+export const chatMessageDuration = new Histogram({
+    name: 'agent_message_duration_seconds',
+    help: 'Time taken by an agent to reply to a chat message, including tool calls.',
+    labelNames: ['agent', 'operation', 'outcome'] as const,
+    buckets: [0.25, 0.5, 1, 2, 5, 10, 20, 30, 60, 120],
+    registers: [metricsRegistry]
+});
+
+export const chatTokens = new Counter({
+    name: 'agent_tokens_total',
+    help: 'Model tokens used by an agent, by type (prompt or completion).',
+    labelNames: ['agent', 'type'] as const,
+    registers: [metricsRegistry]
+});
+
+export const toolCallDuration = new Histogram({
+    name: 'agent_tool_call_duration_seconds',
+    help: 'Time taken by the tool calls an agent made, by tool and outcome.',
+    labelNames: ['agent', 'tool', 'outcome'] as const,
+    buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5],
+    registers: [metricsRegistry]
+});
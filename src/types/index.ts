@@ -1,15 +1,299 @@
-export interface TaskItem {
-    id: number;
-    title: string;
-    isComplete: boolean;
+import { z } from 'zod';
+import {
+    actionableTasksQuerySchema,
+    addSubtasksInputSchema,
+    createTaskInputSchema,
+    createTaskListInputSchema,
+    duplicatePolicySchema,
+    taskActorSchema,
+    taskBatchOperationSchema,
+    taskBatchResultSchema,
+    taskChangeEventSchema,
+    taskChangeTypeSchema,
+    taskFilterSchema,
+    taskFormatSchema,
+    taskImportResultSchema,
+    taskListDeletePolicySchema,
+    taskListSchema,
+    taskPageSchema,
+    taskPrioritySchema,
+    taskQuerySchema,
+    taskSchema,
+    taskSortFieldSchema,
+    updateTaskInputSchema,
+    updateTaskListInputSchema
+} from '../schemas/tasks';
+import { proofreadCategorySchema, proofreadEditSchema, proofreadRequestSchema, proofreadToneSchema } from '../schemas/email';
+import { proposedTaskSchema } from '../schemas/actionItems';
+
+// Task types are inferred from the zod schemas in `src/schemas/tasks.ts`, which document them
+
+export type TaskPriority = z.infer<typeof taskPrioritySchema>;
+export type TaskItem = z.infer<typeof taskSchema>;
+export type CreateTaskInput = z.infer<typeof createTaskInputSchema>;
+export type UpdateTaskInput = z.infer<typeof updateTaskInputSchema>;
+export type TaskSortField = z.infer<typeof taskSortFieldSchema>;
+export type TaskFilter = z.infer<typeof taskFilterSchema>;
+export type TaskQuery = z.infer<typeof taskQuerySchema>;
+export type TaskPage = z.infer<typeof taskPageSchema>;
+export type TaskBatchOperation = z.infer<typeof taskBatchOperationSchema>;
+export type TaskBatchResult = z.infer<typeof taskBatchResultSchema>;
+export type TaskFormat = z.infer<typeof taskFormatSchema>;
+export type DuplicatePolicy = z.infer<typeof duplicatePolicySchema>;
+export type TaskImportResult = z.infer<typeof taskImportResultSchema>;
+export type TaskChangeType = z.infer<typeof taskChangeTypeSchema>;
+export type TaskActor = z.infer<typeof taskActorSchema>;
+export type TaskChangeEvent = z.infer<typeof taskChangeEventSchema>;
+export type TaskList = z.infer<typeof taskListSchema>;
+export type CreateTaskListInput = z.infer<typeof createTaskListInputSchema>;
+export type UpdateTaskListInput = z.infer<typeof updateTaskListInputSchema>;
+export type TaskListDeletePolicy = z.infer<typeof taskListDeletePolicySchema>;
+export type AddSubtasksInput = z.infer<typeof addSubtasksInputSchema>;
+export type ActionableTasksQuery = z.infer<typeof actionableTasksQuerySchema>;
+
+/**
+ * A task with its subtasks, recursively; see `taskTreeNodeSchema`.
+ */
+export type TaskTreeNode = TaskItem & {
+    isBlocked: boolean;
+    progress: { completed: number; total: number };
+    subtasks: TaskTreeNode[];
+};
+
+export type ProofreadTone = z.infer<typeof proofreadToneSchema>;
+export type ProofreadCategory = z.infer<typeof proofreadCategorySchema>;
+export type ProofreadRequest = z.infer<typeof proofreadRequestSchema>;
+export type ProofreadEdit = z.infer<typeof proofreadEditSchema>;
+export type ProposedTask = z.infer<typeof proposedTaskSchema>;
+
+/**
+ * Result of `TaskService.applyBatch`.
+ *
+ * - `applied`: every operation succeeded; `results` are in the order of the operations.
+ * - `failed`: the operation at `index` could not be applied, so none of them were.
+ */
+export type TaskBatchOutcome =
+    | { status: 'applied'; results: TaskBatchResult[] }
+    | { status: 'failed'; index: number; reason: string };
+
+export interface TaskImportOptions {
+    duplicates: DuplicatePolicy;
+    /** Work out what the import would do without changing anything. */
+    dryRun: boolean;
 }
 
+/**
+ * Result of undoing a change with `TaskService.undoChange`.
+ *
+ * - `undone`: the change was reverted by the new change `event`.
+ * - `not_found`: there is no change with that ID.
+ * - `conflict`: the task changed again afterwards, so reverting would discard later work.
+ */
+export type UndoOutcome =
+    | { status: 'undone'; event: TaskChangeEvent }
+    | { status: 'not_found' }
+    | { status: 'conflict'; reason: string };
+
 export interface ChatMessage {
     role: 'user' | 'assistant';
     content: string;
+    /** Set when the agent paused to ask for confirmation before running tools. */
+    pendingAction?: PendingAction;
+    /**
+     * How the reply was produced: the tool calls made, with their results, and the tokens used.
+     * Only set on replies, not on stored history.
+     */
+    trace?: ChatTrace;
+    /**
+     * The tasks the agent's tool calls changed. Set on replies of agents that can change tasks,
+     * with empty lists when nothing changed, so clients only reload tasks when they have to.
+     */
+    affectedTasks?: AffectedTasks;
+    /**
+     * IDs of the specialist agents the supervisor handed the message to, in the order they
+     * answered. Only set on replies of the supervisor agent.
+     */
+    agents?: string[];
+}
+
+/**
+ * Response of `POST /api/email/proofread`.
+ */
+export interface ProofreadResult {
+    /** The submitted text with every edit applied. */
+    text: string;
+    /** The edits, in the order they appear in the submitted text; they never overlap. */
+    edits: ProofreadEdit[];
+    tone?: ProofreadTone;
+    locale: string;
+    trace: ChatTrace;
+}
+
+/**
+ * Response of `POST /api/tasks/extract`: the tasks proposed from the text, which are only
+ * created once the client confirms them.
+ */
+export interface TaskExtraction {
+    tasks: ProposedTask[];
+    trace: ChatTrace;
+}
+
+/**
+ * IDs of the tasks changed while producing a reply. Each task is listed once: a task created and
+ * then updated is `created`, and a deleted task is `deleted`, whatever happened to it before.
+ */
+export interface AffectedTasks {
+    created: number[];
+    updated: number[];
+    deleted: number[];
+}
+
+/**
+ * Model tokens used to produce a reply, summed over every model call.
+ */
+export interface TokenUsage {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+}
+
+/**
+ * A tool call made while producing a reply.
+ */
+export interface ToolCallTrace {
+    toolCallId: string;
+    name: string;
+    args: unknown;
+    durationMs: number;
+    status: 'ok' | 'error';
+    /** What the tool returned to the model, for a successful call. */
+    result?: string;
+    /** The error message of a failed call. */
+    error?: string;
+}
+
+/**
+ * Summary of one agent turn, also recorded as an OpenTelemetry span and in the Prometheus metrics.
+ */
+export interface ChatTrace {
+    /** OpenTelemetry trace ID of the turn, for finding it in the tracing backend. */
+    traceId: string;
+    agentId: string;
+    durationMs: number;
+    /** Null when the agent does not report token usage, e.g. the scripted model. */
+    usage: TokenUsage | null;
+    /** Tool calls in the order they started. */
+    toolCalls: ToolCallTrace[];
+    /**
+     * Turns other agents took on this agent's behalf, e.g. the specialists a supervisor delegated
+     * to. Their tokens are included in `usage`.
+     */
+    delegates?: ChatTrace[];
+}
+
+/**
+ * A tool call the agent wants to make, with a human-readable summary for the confirmation prompt.
+ */
+export interface PendingToolCall {
+    toolCallId: string;
+    name: string;
+    args: Record<string, unknown>;
+    description: string;
+}
+
+/**
+ * Tool calls awaiting user approval. They are approved or rejected together, through
+ * `POST /api/chat/:agentId/sessions/:sessionId/actions/:actionId/approve` or `.../reject`.
+ */
+export interface PendingAction {
+    actionId: string;
+    toolCalls: PendingToolCall[];
+}
+
+/**
+ * Incremental output of a streamed chat reply, sent to clients as Server-Sent Events.
+ * The `type` doubles as the SSE event name.
+ *
+ * - `delta`: a chunk of assistant text to append to the reply so far.
+ * - `tool_start` / `tool_end`: the agent started or finished calling a tool.
+ * - `message`: the complete assistant reply; always the last event of a successful stream.
+ * - `error`: the reply could not be completed; ends the stream. `problem` tells what went wrong,
+ *   in the same form as the problem details of a failed `POST /api/chat/:agentId`.
+ */
+export type ChatStreamEvent =
+    | { type: 'delta'; content: string }
+    | { type: 'tool_start'; toolCallId: string; name: string; args?: unknown }
+    | { type: 'tool_end'; toolCallId: string; name: string; output?: string }
+    | { type: 'message'; message: ChatMessage }
+    | { type: 'error'; error: string; problem: ProblemDetails };
+
+/**
+ * RFC 7807 problem details, the body of every error response (`application/problem+json`).
+ * Problem types the app defines are listed in `src/errors`; unexpected failures have type `about:blank`.
+ * Extension members carry problem-specific data, e.g. `runStatus` for a failed agent run.
+ */
+export interface ProblemDetails {
+    type: string;
+    title: string;
+    status: number;
+    detail?: string;
+    /** The request path the problem occurred on. */
+    instance?: string;
+    /** True when the same request may succeed later, so clients can offer to retry it. */
+    retryable: boolean;
+    [extension: string]: unknown;
+}
+
+/**
+ * A stored conversation that can be reopened from the chat UI.
+ */
+export interface ChatSession {
+    sessionId: string;
+    /** The first user message, used as a label in session pickers. */
+    title: string;
+    createdAt: string;
+    updatedAt: string;
+}
+
+/**
+ * - `ready`: the agent can take messages.
+ * - `not_configured`: required settings are missing.
+ * - `unavailable`: the agent is configured but failed to initialize.
+ */
+export type AgentStatus = 'ready' | 'not_configured' | 'unavailable';
+
+/**
+ * An entry of the `GET /api/agents` discovery endpoint.
+ */
+export interface AgentInfo {
+    id: string;
+    name: string;
+    description: string;
+    status: AgentStatus;
+    detail?: string;
+    /** True when past conversations can be listed and restored. */
+    supportsHistory: boolean;
+    /** True when the agent may pause for the user to approve tool calls. */
+    supportsApproval: boolean;
 }
 
 export interface ChatRequest {
     message: string;
     sessionId?: string;
 }
+
+/**
+ * How a request was authenticated: with a bearer JWT, including the ID token App Service
+ * Easy Auth forwards, with a static API key, or not at all while authentication is disabled.
+ */
+export type AuthMethod = 'jwt' | 'api-key' | 'none';
+
+/**
+ * The user a request is made for. Tasks, task lists and chat sessions belong to a user by `id`.
+ */
+export interface AuthenticatedUser {
+    id: string;
+    /** Display name, when the credentials carry one. */
+    name?: string;
+    method: AuthMethod;
+}